@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+// Runs every src/**/*.test.ts with node:test. Each file is bundled with esbuild
+// first (chalk and conf are ESM-only, so ts-node's CommonJS output can't load
+// them), and runs with HOME and TMPDIR pointed at a temp dir so config, cache
+// and history writes never touch the real ~/.config/tokenlens.
+import { build } from 'esbuild';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const tests = fs
+  .readdirSync(path.join(root, 'src'), { recursive: true })
+  .filter((file) => file.endsWith('.test.ts'))
+  .map((file) => path.join(root, 'src', file))
+  .sort();
+if (tests.length === 0) {
+  console.error('No tests found under src/');
+  process.exit(1);
+}
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'tlens-test-'));
+let status = 1;
+try {
+  const outdir = path.join(tmp, 'out');
+  await build({
+    entryPoints: tests,
+    outdir,
+    outbase: path.join(root, 'src'),
+    bundle: true,
+    platform: 'node',
+    target: 'node18',
+    format: 'cjs',
+    logLevel: 'error',
+    // Bundled tests live in the temp dir; keep __dirname pointing at the source so fixtures resolve.
+    plugins: [{
+      name: 'test-dirname',
+      setup(b) {
+        b.onLoad({ filter: /\.test\.ts$/ }, (args) => ({
+          contents: fs.readFileSync(args.path, 'utf8').replace(/\b__dirname\b/g, JSON.stringify(path.dirname(args.path))),
+          loader: 'ts',
+        }));
+      },
+    }],
+  });
+  const files = tests.map((file) => path.join(outdir, path.relative(path.join(root, 'src'), file)).replace(/\.ts$/, '.js'));
+  const home = path.join(tmp, 'home');
+  const tmpdir = path.join(tmp, 'tmp');
+  fs.mkdirSync(home);
+  fs.mkdirSync(tmpdir);
+  const env = { ...process.env, HOME: home, USERPROFILE: home, XDG_CONFIG_HOME: path.join(home, '.config'), TMPDIR: tmpdir };
+  for (const name of ['DEBUG', 'HTTPS_PROXY', 'HTTP_PROXY', 'ALL_PROXY', 'NO_PROXY', 'TLENS_SECRET_PASSPHRASE', 'CLAUDE_CONFIG_DIR']) {
+    delete env[name];
+    delete env[name.toLowerCase()];
+  }
+  status = spawnSync(process.execPath, ['--test', ...files], { stdio: 'inherit', env }).status ?? 1;
+} finally {
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+process.exit(status);
@@ -0,0 +1,131 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import os from 'os';
+import path from 'path';
+import { accountFactories, getProvider, type ProviderAccount } from '../providers';
+import { getAccounts, setAccounts, accountSessionKey, getSessionTokenLocation, setSessionToken, removeSessionToken } from '../utils/config';
+import { saveSecret } from './config';
+
+const ACCOUNT_PROVIDERS = Object.keys(accountFactories);
+
+/** Options each provider understands; anything else is rejected on `add`. */
+const ACCOUNT_OPTIONS: Record<string, Array<keyof ProviderAccount>> = {
+  codex: ['home'],
+  gemini: ['home'],
+  cursor: ['browserProfile', 'cookieFile', 'session'],
+};
+
+const OPTION_FLAGS: Partial<Record<keyof ProviderAccount, string>> = {
+  home: '--home',
+  browserProfile: '--browser-profile',
+  cookieFile: '--cookie-file',
+  session: '--session',
+};
+
+function resolvePath(p: string): string {
+  const expanded = p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+  return path.resolve(expanded);
+}
+
+function describeAccount(account: ProviderAccount): string {
+  const parts: string[] = [];
+  if (account.home) parts.push(`home ${account.home}`);
+  if (account.browserProfile) parts.push(`browser profile "${account.browserProfile}"`);
+  if (account.cookieFile) parts.push(`cookie file ${account.cookieFile}`);
+  if (account.session || getSessionTokenLocation(accountSessionKey(account))) parts.push('session token');
+  return parts.length > 0 ? parts.join(', ') : 'default location';
+}
+
+export const accountsCommand = new Command('accounts')
+  .description('Manage named accounts (several logins for one provider)');
+
+accountsCommand
+  .command('list')
+  .description('List named accounts')
+  .action(() => {
+    const accounts = getAccounts();
+    if (accounts.length === 0) {
+      console.log(chalk.dim('No named accounts. Add one with `tlens accounts add codex work --home ~/.codex-work`.'));
+      return;
+    }
+    for (const id of ACCOUNT_PROVIDERS) {
+      const own = accounts.filter((a) => a.provider === id);
+      if (own.length === 0) continue;
+      console.log(chalk.bold(`${getProvider(id)?.name ?? id}:`));
+      for (const account of own) {
+        console.log(`  ${account.name.padEnd(12)} ${chalk.dim(describeAccount(account))}`);
+      }
+    }
+  });
+
+accountsCommand
+  .command('add <provider> <name>')
+  .description(`Add a named account (${ACCOUNT_PROVIDERS.join(', ')})`)
+  .option('--home <dir>', 'Codex: CODEX_HOME directory. Gemini: directory holding oauth_creds.json')
+  .option('--browser-profile <name>', 'Cursor: browser profile logged in to this account')
+  .option('--cookie-file <path>', 'Cursor: Netscape cookies.txt file for this account')
+  .option('--session <token>', 'Cursor: WorkosCursorSessionToken value for this account')
+  .addHelpText('after', `
+Once a provider has named accounts, only those are shown. Add an account
+without options to keep the default location too, e.g.:
+  tlens accounts add codex personal
+  tlens accounts add codex work --home ~/.codex-work`)
+  .action(async (providerId: string, name: string, options) => {
+    const provider = providerId.toLowerCase();
+    if (!ACCOUNT_PROVIDERS.includes(provider)) {
+      console.error(chalk.red(`Named accounts are supported for: ${ACCOUNT_PROVIDERS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+    if (!/^[a-z0-9_-]+$/i.test(name)) {
+      console.error(chalk.red('Account names may only contain letters, digits, "-" and "_"'));
+      process.exitCode = 1;
+      return;
+    }
+
+    const account: ProviderAccount = { provider, name };
+    if (options.home) account.home = resolvePath(options.home);
+    if (options.browserProfile) account.browserProfile = options.browserProfile;
+    if (options.cookieFile) account.cookieFile = resolvePath(options.cookieFile);
+    if (options.session) account.session = String(options.session).trim();
+
+    const allowed = ACCOUNT_OPTIONS[provider] ?? [];
+    const unsupported = (Object.keys(OPTION_FLAGS) as Array<keyof ProviderAccount>)
+      .filter((key) => account[key] !== undefined && !allowed.includes(key));
+    if (unsupported.length > 0) {
+      console.error(chalk.red(`${unsupported.map((key) => OPTION_FLAGS[key]).join(', ')} not supported for ${provider}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const accounts = getAccounts();
+    if (accounts.some((a) => a.provider === provider && a.name === name)) {
+      console.error(chalk.red(`${provider} account "${name}" already exists. Remove it first.`));
+      process.exitCode = 1;
+      return;
+    }
+    // The session token goes to the secret store, not config.json.
+    const { session, ...stored } = account;
+    if (session && !(await saveSecret(() => setSessionToken(accountSessionKey(account), session), `Session token for ${provider} account "${name}" saved`))) {
+      return;
+    }
+    setAccounts([...accounts, stored]);
+    console.log(chalk.green(`Added ${provider} account "${name}" (${describeAccount(stored)})`));
+  });
+
+accountsCommand
+  .command('remove <provider> <name>')
+  .description('Remove a named account')
+  .action((providerId: string, name: string) => {
+    const provider = providerId.toLowerCase();
+    const accounts = getAccounts();
+    const remaining = accounts.filter((a) => !(a.provider === provider && a.name === name));
+    if (remaining.length === accounts.length) {
+      console.error(chalk.red(`No ${provider} account named "${name}"`));
+      process.exitCode = 1;
+      return;
+    }
+    setAccounts(remaining);
+    removeSessionToken(accountSessionKey({ provider, name }));
+    console.log(chalk.green(`Removed ${provider} account "${name}"`));
+  });
@@ -0,0 +1,124 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getAlertRules, setAlertRules, getAlertSinks, setAlertSinks, getAlertState, setAlertState } from '../utils/config';
+import { parseAlertRule, describeSink, dispatchAlerts, type AlertSink } from '../utils/alerts';
+import { getProvider } from '../providers';
+import type { UsageWindow } from '../providers';
+
+export const alertsCommand = new Command('alerts')
+  .description('Manage usage alert rules and notification sinks');
+
+alertsCommand
+  .command('list')
+  .description('List alert rules and sinks')
+  .action(() => {
+    const rules = getAlertRules();
+    const sinks = getAlertSinks();
+    console.log(chalk.bold('Rules:'));
+    if (rules.length === 0) console.log(chalk.dim('  (none) Add one with `tlens alerts add "codex.weekly > 75%"`'));
+    rules.forEach((rule, i) => console.log(`  ${i + 1}. ${rule}`));
+    console.log('');
+    console.log(chalk.bold('Sinks:'));
+    if (sinks.length === 0) console.log(chalk.dim('  (none) Alerts go to stderr'));
+    sinks.forEach((sink, i) => console.log(`  ${i + 1}. ${describeSink(sink)}`));
+  });
+
+alertsCommand
+  .command('add <rule>')
+  .description('Add a rule, e.g. "codex.weekly > 75%" or "cursor.plan > 90% with more than 5 days to reset"')
+  .action((text: string) => {
+    let rule;
+    try {
+      rule = parseAlertRule(text);
+    } catch (err) {
+      console.error(chalk.red((err as Error).message));
+      process.exitCode = 1;
+      return;
+    }
+    if (!getProvider(rule.provider)) {
+      console.error(chalk.red(`Unknown provider: ${rule.provider}`));
+      process.exitCode = 1;
+      return;
+    }
+    const rules = getAlertRules();
+    if (rules.includes(rule.text)) {
+      console.log(chalk.yellow('Rule already exists.'));
+      return;
+    }
+    setAlertRules([...rules, rule.text]);
+    console.log(chalk.green(`Alert rule added: ${rule.text}`));
+  });
+
+alertsCommand
+  .command('remove <index>')
+  .description('Remove a rule by its number in `alerts list`')
+  .action((index: string) => {
+    const rules = getAlertRules();
+    const i = Number(index) - 1;
+    if (!Number.isInteger(i) || i < 0 || i >= rules.length) {
+      console.error(chalk.red(`No rule #${index}`));
+      process.exitCode = 1;
+      return;
+    }
+    const [removed] = rules.splice(i, 1);
+    setAlertRules(rules);
+    const state = getAlertState();
+    for (const key of Object.keys(state)) {
+      if (key === removed || key.startsWith(`${removed}@`)) delete state[key];
+    }
+    setAlertState(state);
+    console.log(chalk.green(`Alert rule removed: ${removed}`));
+  });
+
+const sinkCommand = alertsCommand
+  .command('sink')
+  .description('Manage notification sinks (stderr | notify-send | command | webhook)');
+
+sinkCommand
+  .command('add <type> [target]')
+  .description('Add a sink: stderr, notify-send, command "<shell command>", webhook <url>')
+  .action((type: string, target: string | undefined) => {
+    let sink: AlertSink;
+    if (type === 'stderr' || type === 'notify-send') {
+      sink = { type };
+    } else if (type === 'command' && target) {
+      sink = { type, command: target };
+    } else if (type === 'webhook' && target && /^https?:\/\//.test(target)) {
+      sink = { type, url: target };
+    } else {
+      console.error(chalk.red('Usage: tlens alerts sink add stderr | notify-send | command "<cmd>" | webhook <url>'));
+      process.exitCode = 1;
+      return;
+    }
+    setAlertSinks([...getAlertSinks(), sink]);
+    console.log(chalk.green(`Sink added: ${describeSink(sink)}`));
+  });
+
+sinkCommand
+  .command('remove <index>')
+  .description('Remove a sink by its number in `alerts list`')
+  .action((index: string) => {
+    const sinks = getAlertSinks();
+    const i = Number(index) - 1;
+    if (!Number.isInteger(i) || i < 0 || i >= sinks.length) {
+      console.error(chalk.red(`No sink #${index}`));
+      process.exitCode = 1;
+      return;
+    }
+    const [removed] = sinks.splice(i, 1);
+    setAlertSinks(sinks);
+    console.log(chalk.green(`Sink removed: ${describeSink(removed)}`));
+  });
+
+alertsCommand
+  .command('test')
+  .description('Send a test alert to every configured sink')
+  .action(async () => {
+    const window: UsageWindow = { id: 'test', label: 'Test', unit: 'percent', used: 100, limit: 100, percent: 100 };
+    await dispatchAlerts([{
+      rule: parseAlertRule('test.test > 0%'),
+      providerName: 'TokenLens',
+      window,
+      message: 'Test alert from TokenLens',
+    }]);
+  });
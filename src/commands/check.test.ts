@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProviderResult, ProviderState, UsageProvider } from '../providers';
+import { CHECK_EXIT, checkLimits, parseLimit, type Limit } from './check';
+
+function result(state: ProviderState, percent?: number, limit = 100, account?: string): ProviderResult {
+  return {
+    provider: { id: 'codex', name: 'Codex', account } as UsageProvider,
+    state,
+    usage: percent === undefined ? null : { windows: [{ id: 'session', label: 'Session', unit: 'percent', used: percent, limit, percent }] },
+    hint: state === 'ok' ? undefined : 'hint',
+    fetchedAt: new Date(),
+  };
+}
+
+function run(results: ProviderResult[], specs = ['codex.session=80']): { code: number; lines: string[] } {
+  const limits = specs.map((spec) => parseLimit(spec)!) as Limit[];
+  const lines: string[] = [];
+  const code = checkLimits(limits, new Map([['codex', results]]), (line) => lines.push(line));
+  return { code, lines };
+}
+
+test('parses --max specs', () => {
+  assert.deepEqual(parseLimit('Codex.Session = 80%'), { spec: 'Codex.Session = 80%', provider: 'codex', window: 'session', max: 80 });
+  assert.equal(parseLimit('codex.session'), null);
+  assert.equal(parseLimit('codex=80'), null);
+});
+
+test('exits 0 when every window is within its limit', () => {
+  assert.deepEqual(run([result('ok', 80)]), { code: CHECK_EXIT.ok, lines: [] });
+});
+
+test('exits 1 when a window is over its limit', () => {
+  const { code, lines } = run([result('ok', 81)]);
+  assert.equal(code, CHECK_EXIT.overThreshold);
+  assert.match(lines[0], /codex\.session: 81% > 80%/);
+});
+
+test('exits 2 when a provider is not logged in', () => {
+  assert.equal(run([result('not_configured')]).code, CHECK_EXIT.notAuthenticated);
+  assert.equal(run([result('auth_expired')]).code, CHECK_EXIT.notAuthenticated);
+});
+
+test('exits 3 on fetch errors, missing windows and windows without a limit', () => {
+  assert.equal(run([result('network_error')]).code, CHECK_EXIT.fetchError);
+  assert.equal(run([result('ok', 10)], ['codex.weekly=80']).code, CHECK_EXIT.fetchError);
+  assert.equal(run([result('ok', 0, 0)]).code, CHECK_EXIT.fetchError);
+});
+
+test('the most severe finding wins, across named accounts', () => {
+  assert.equal(run([result('network_error'), result('auth_expired', undefined, 100, 'work')]).code, CHECK_EXIT.notAuthenticated);
+  const { code, lines } = run([result('auth_expired'), result('ok', 95, 100, 'work')]);
+  assert.equal(code, CHECK_EXIT.overThreshold);
+  assert.match(lines[1], /codex\.session \(work\): 95%/);
+});
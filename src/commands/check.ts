@@ -0,0 +1,132 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { getProvider, getProviderInstances, fetchProviderResult, hasKnownLimit, type ProviderResult } from '../providers';
+import { formatCountdown } from '../utils/format';
+
+/** Exit codes, most severe finding wins in this order. */
+export const CHECK_EXIT = {
+  ok: 0,
+  overThreshold: 1,
+  notAuthenticated: 2,
+  fetchError: 3,
+  usage: 64,
+} as const;
+
+export interface Limit {
+  spec: string;
+  provider: string;
+  window: string;
+  max: number;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function parseLimit(spec: string): Limit | null {
+  const m = spec.match(/^\s*([a-z0-9_-]+)\.([a-z0-9_-]+)\s*=\s*(\d+(?:\.\d+)?)\s*%?\s*$/i);
+  if (!m) return null;
+  return { spec, provider: m[1].toLowerCase(), window: m[2].toLowerCase(), max: Number(m[3]) };
+}
+
+/**
+ * Check fetched results (keyed by provider id) against the limits, reporting
+ * each finding through `say`, and return the exit code.
+ */
+export function checkLimits(limits: Limit[], results: Map<string, ProviderResult[]>, say: (line: string) => void): number {
+  let over = false;
+  let unauthenticated = false;
+  let failed = false;
+  for (const limit of limits) {
+    for (const result of results.get(limit.provider) ?? []) {
+      const account = result.provider.account ? ` (${result.provider.account})` : '';
+      const name = `${limit.provider}.${limit.window}${account}`;
+      if (result.state === 'not_configured' || result.state === 'auth_expired') {
+        unauthenticated = true;
+        say(chalk.red(`${name}: not authenticated (${result.state.replace(/_/g, ' ')}). ${result.hint}`));
+        continue;
+      }
+      if (result.state !== 'ok') {
+        failed = true;
+        say(chalk.red(`${name}: fetch failed (${result.state.replace(/_/g, ' ')}). ${result.hint}`));
+        continue;
+      }
+      const window = result.usage?.windows.find((w) => w.id === limit.window);
+      if (!window) {
+        failed = true;
+        say(chalk.red(`${name}: window not reported by ${result.provider.name}`));
+        continue;
+      }
+      if (!hasKnownLimit(window)) {
+        failed = true;
+        say(chalk.red(`${name}: ${result.provider.name} did not report a limit for this window`));
+        continue;
+      }
+      if (window.percent > limit.max) {
+        over = true;
+        const resets = window.resetsAt ? ` (resets in ${formatCountdown(window.resetsAt)})` : '';
+        say(chalk.yellow(`${name}: ${Math.round(window.percent)}% > ${limit.max}%${resets}`));
+      }
+    }
+  }
+
+  if (over) return CHECK_EXIT.overThreshold;
+  if (unauthenticated) return CHECK_EXIT.notAuthenticated;
+  if (failed) return CHECK_EXIT.fetchError;
+  return CHECK_EXIT.ok;
+}
+
+export const checkCommand = new Command('check')
+  .description('Exit non-zero when usage is over a limit (for scripts and CI gates)')
+  .option('--max <window=percent>', 'Maximum allowed usage, e.g. codex.session=80 (repeatable)', collect, [] as string[])
+  .option('-q, --quiet', 'Do not print anything, only set the exit code')
+  .option('--cookie-file <path>', 'Read Cursor cookies from a Netscape cookies.txt file instead of browsers')
+  .addHelpText('after', `
+Exit codes:
+  0   all limits satisfied
+  1   at least one window is over its limit
+  2   a provider is not logged in or its token expired
+  3   a provider fetch failed or did not report the window
+  64  invalid arguments`)
+  .action(async (options) => {
+    if (options.cookieFile) {
+      process.env.TLENS_COOKIE_FILE = path.resolve(options.cookieFile);
+    }
+    const say = (line: string) => {
+      if (!options.quiet) console.log(line);
+    };
+    const specs: string[] = options.max;
+    if (specs.length === 0) {
+      console.error(chalk.red('Nothing to check. Pass at least one --max <provider.window>=<percent>.'));
+      process.exitCode = CHECK_EXIT.usage;
+      return;
+    }
+
+    const limits: Limit[] = [];
+    for (const spec of specs) {
+      const limit = parseLimit(spec);
+      if (!limit) {
+        console.error(chalk.red(`Invalid --max "${spec}". Expected e.g. codex.session=80`));
+        process.exitCode = CHECK_EXIT.usage;
+        return;
+      }
+      if (!getProvider(limit.provider)) {
+        console.error(chalk.red(`Unknown provider in --max "${spec}": ${limit.provider}`));
+        process.exitCode = CHECK_EXIT.usage;
+        return;
+      }
+      limits.push(limit);
+    }
+
+    // Every named account of a provider is checked against its limits.
+    const ids = Array.from(new Set(limits.map((l) => l.provider)));
+    const results = new Map<string, ProviderResult[]>();
+    await Promise.all(
+      ids.map(async (id) => {
+        results.set(id, await Promise.all(getProviderInstances(id).map(fetchProviderResult)));
+      })
+    );
+
+    process.exitCode = checkLimits(limits, results, say);
+  });
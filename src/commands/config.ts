@@ -1,15 +1,91 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
 import inquirer from 'inquirer';
-import { setApiKey, getApiKey, setPreferredBrowser, getPreferredBrowser, removeApiKey } from '../utils/config';
+import { BROWSER_CHOICES } from '../utils/cookie-extractor/paths';
+import { getProvider } from '../providers';
+import { parseDuration } from '../utils/duration';
+import { SECRET_BACKEND_LABELS, PASSPHRASE_ENV, type SecretBackend } from '../utils/secret-store';
+import { setApiKey, getApiKey, setPreferredBrowser, getPreferredBrowser, setPreferredBrowserProfile, setPreferredFirefoxProfile, setPreferredFirefoxContainer, removeApiKey, setSessionToken, removeSessionToken, setCacheMaxAge, setProxy, setCaFile } from '../utils/config';
 
 export const configCommand = new Command('config')
   .description('Configure API keys and preferences');
 
+/** 'max-age' -> 'default', 'max-age.codex' -> 'codex'; null if not a max-age key or an unknown provider. */
+function parseMaxAgeKey(key: string): string | null {
+  if (key === 'max-age') return 'default';
+  const m = key.match(/^max-age\.([a-z0-9_-]+)$/i);
+  return m && getProvider(m[1]) ? m[1].toLowerCase() : null;
+}
+
+/**
+ * Save a secret and report where it went. Without an OS secret store the encrypted
+ * file needs a passphrase; on a terminal it is asked for when not in the environment.
+ * Returns false (with process.exitCode set) if it could not be saved.
+ */
+export async function saveSecret(save: () => SecretBackend, label: string): Promise<boolean> {
+  let backend: SecretBackend;
+  try {
+    backend = save();
+  } catch (err) {
+    if (process.env[PASSPHRASE_ENV] || !process.stdin.isTTY) {
+      console.error(chalk.red((err as Error).message));
+      process.exitCode = 1;
+      return false;
+    }
+    const { passphrase } = await inquirer.prompt([
+      { type: 'password', name: 'passphrase', message: 'No OS secret store found. Passphrase for the encrypted secrets file:' },
+    ]);
+    if (!passphrase) {
+      process.exitCode = 1;
+      return false;
+    }
+    process.env[PASSPHRASE_ENV] = passphrase;
+    try {
+      backend = save();
+    } catch (retryErr) {
+      console.error(chalk.red((retryErr as Error).message));
+      process.exitCode = 1;
+      return false;
+    }
+  }
+  console.log(chalk.green(`${label} (stored in ${SECRET_BACKEND_LABELS[backend]})`));
+  if (backend === 'file') {
+    console.log(chalk.dim(`Set ${PASSPHRASE_ENV} in your environment so tlens can read it.`));
+  }
+  return true;
+}
+
 configCommand
   .command('remove <provider>')
-  .description('Remove an API key for a provider (copilot)')
+  .description('Remove an API key, session token, network setting or cache max age (copilot | cursor-session | proxy | ca-file | max-age[.<provider>])')
   .action((provider) => {
+    if (provider.startsWith('max-age')) {
+      const target = parseMaxAgeKey(provider);
+      if (!target) {
+        console.error(chalk.red(`Invalid key: ${provider} (use max-age or max-age.<provider>)`));
+        return;
+      }
+      setCacheMaxAge(target, undefined);
+      console.log(chalk.green(`Cache max age cleared for ${target === 'default' ? 'all providers' : target}`));
+      return;
+    }
+    if (provider === 'proxy') {
+      setProxy(undefined);
+      console.log(chalk.green('Proxy removed (HTTPS_PROXY / HTTP_PROXY still apply)'));
+      return;
+    }
+    if (provider === 'ca-file') {
+      setCaFile(undefined);
+      console.log(chalk.green('CA file removed'));
+      return;
+    }
+    if (provider === 'cursor-session') {
+      removeSessionToken('cursor');
+      console.log(chalk.green('Cursor session token removed (reading cookies from browsers again)'));
+      return;
+    }
     if (!['copilot'].includes(provider)) {
       console.error(chalk.red('Invalid provider. Supported: copilot'));
       return;
@@ -20,10 +96,77 @@ configCommand
 
 configCommand
   .command('set <provider> <key>')
-  .description('Set preferred browser or API key (browser | copilot)')
-  .action((provider, key) => {
+  .description('Set preferred browser, profile, container, network, cache max age or API key (browser | browser-profile | firefox-profile | firefox-container | cursor-session | proxy | ca-file | max-age[.<provider>] | copilot)')
+  .action(async (provider, key) => {
+    if (provider.startsWith('max-age')) {
+        const target = parseMaxAgeKey(provider);
+        const ms = parseDuration(key);
+        if (!target || ms == null) {
+            console.error(chalk.red('Usage: tlens config set max-age[.<provider>] <duration>, e.g. max-age 5m or max-age.codex 10m'));
+            return;
+        }
+        setCacheMaxAge(target, ms);
+        console.log(chalk.green(`Cached results for ${target === 'default' ? 'all providers' : target} are reused for ${key}`));
+        return;
+    }
+
+    if (provider === 'proxy') {
+        let url: URL | null = null;
+        try {
+            url = new URL(key.includes('://') ? key : `http://${key}`);
+        } catch {
+            // reported below
+        }
+        if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+            console.error(chalk.red('Usage: tlens config set proxy <url>, e.g. http://proxy.corp:8080'));
+            return;
+        }
+        setProxy(url.href);
+        console.log(chalk.green(`Proxy set to ${url.host} (HTTPS_PROXY / HTTP_PROXY take precedence, NO_PROXY applies)`));
+        return;
+    }
+
+    if (provider === 'ca-file') {
+        const file = path.resolve(key);
+        if (!fs.existsSync(file) || !fs.readFileSync(file, 'utf8').includes('BEGIN CERTIFICATE')) {
+            console.error(chalk.red(`Not a PEM certificate file: ${file}`));
+            return;
+        }
+        setCaFile(file);
+        console.log(chalk.green(`Trusting certificates in ${file} in addition to the built-in CAs`));
+        return;
+    }
+
+    if (provider === 'cursor-session') {
+        await saveSecret(() => setSessionToken('cursor', key.trim()), 'Cursor session token saved, used instead of browser cookies');
+        return;
+    }
+
+    if (provider === 'firefox-profile') {
+        setPreferredFirefoxProfile(key === 'all' ? undefined : key);
+        console.log(chalk.green(key === 'all' ? 'Firefox profile cleared (checking all profiles)' : `Firefox profile set to "${key}"`));
+        return;
+    }
+
+    if (provider === 'firefox-container') {
+        setPreferredFirefoxContainer(key === 'default' ? undefined : key);
+        console.log(chalk.green(key === 'default' ? 'Firefox container preference cleared' : `Firefox container set to "${key}"`));
+        return;
+    }
+
+    if (provider === 'browser-profile') {
+        if (key === 'all') {
+            setPreferredBrowserProfile(undefined);
+            console.log(chalk.green('Browser profile cleared (checking all profiles)'));
+            return;
+        }
+        setPreferredBrowserProfile(key);
+        console.log(chalk.green(`Browser profile set to "${key}"`));
+        return;
+    }
+
     if (provider === 'browser') {
-        const valid = ['all', 'chrome', 'edge', 'firefox', 'safari', 'arc'];
+        const valid = ['all', ...BROWSER_CHOICES.map((b) => b.value)];
         if (!valid.includes(key)) {
             console.error(chalk.red(`Invalid browser. Supported: ${valid.join(', ')}`));
             return;
@@ -37,8 +180,7 @@ configCommand
       console.error(chalk.red('Invalid provider. Supported: copilot'));
       return;
     }
-    setApiKey(provider, key);
-    console.log(chalk.green(`API key set for ${provider}`));
+    await saveSecret(() => setApiKey(provider, key), `API key set for ${provider}`);
   });
 
 configCommand
@@ -53,11 +195,7 @@ configCommand
             message: 'Which browser do you use for Cursor?',
             choices: [
                 { name: 'All (Try everything)', value: 'all' },
-                { name: 'Google Chrome', value: 'chrome' },
-                { name: 'Arc Browser', value: 'arc' },
-                { name: 'Safari', value: 'safari' },
-                { name: 'Firefox', value: 'firefox' },
-                { name: 'Microsoft Edge', value: 'edge' },
+                ...BROWSER_CHOICES,
             ],
             default: getPreferredBrowser(),
         }
@@ -88,8 +226,7 @@ configCommand
       ]);
       
       if (key) {
-        setApiKey(provider, key);
-        console.log(chalk.green(`Saved key for ${provider}`));
+        await saveSecret(() => setApiKey(provider, key), `Saved key for ${provider}`);
       }
     }
     
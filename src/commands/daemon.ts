@@ -0,0 +1,135 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import http from 'http';
+import { providerInstanceKey, type ProviderResult } from '../providers';
+import { parseDuration } from '../utils/duration';
+import { startRefreshLoop, type RefreshLoop } from '../utils/refresh-loop';
+import { toJsonReport } from '../utils/report';
+import { getDaemonToken, getDaemonTokenPath, isAuthorized, writeDaemonState, clearDaemonState } from '../utils/daemon';
+
+/** The daemon only ever listens on loopback. */
+const HOST = '127.0.0.1';
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(`${JSON.stringify(body, null, 2)}\n`);
+}
+
+/** Results of the shared loop, waiting for the first refresh if it has not finished yet. */
+async function currentResults(loop: RefreshLoop): Promise<ProviderResult[]> {
+  return loop.getLastRefresh() ? loop.getResults() : loop.refresh();
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse, loop: RefreshLoop, token: string): Promise<void> {
+  if (!isAuthorized(req.headers.authorization, token)) {
+    sendJson(res, 401, { error: `Missing or invalid bearer token (see ${getDaemonTokenPath()})` });
+    return;
+  }
+  const pathname = new URL(req.url ?? '/', `http://${HOST}`).pathname.replace(/\/+$/, '');
+  const method = req.method ?? 'GET';
+
+  if (pathname === '/v1/refresh') {
+    if (method !== 'POST') {
+      sendJson(res, 405, { error: 'Use POST' });
+      return;
+    }
+    sendJson(res, 200, toJsonReport(await loop.refresh()));
+    return;
+  }
+  if (method !== 'GET') {
+    sendJson(res, 405, { error: 'Use GET' });
+    return;
+  }
+
+  if (pathname === '/v1/providers') {
+    const results = await currentResults(loop);
+    sendJson(res, 200, {
+      providers: results.map((r) => ({
+        id: r.provider.id,
+        name: r.provider.name,
+        account: r.provider.account ?? null,
+        kind: r.provider.kind,
+        state: r.state,
+        hint: r.hint ?? null,
+        fetchedAt: r.fetchedAt.toISOString(),
+      })),
+    });
+    return;
+  }
+  if (pathname === '/v1/usage') {
+    sendJson(res, 200, toJsonReport(await currentResults(loop)));
+    return;
+  }
+  const match = pathname.match(/^\/v1\/usage\/([^/]+)$/);
+  if (match) {
+    // 'codex' matches every Codex account, 'codex@work' only that one.
+    const key = decodeURIComponent(match[1]).toLowerCase();
+    const results = (await currentResults(loop)).filter(
+      (r) => r.provider.id === key || providerInstanceKey(r.provider).toLowerCase() === key
+    );
+    if (results.length === 0) {
+      sendJson(res, 404, { error: `Unknown provider: ${key}` });
+      return;
+    }
+    sendJson(res, 200, toJsonReport(results));
+    return;
+  }
+  sendJson(res, 404, { error: 'Not found' });
+}
+
+export const daemonCommand = new Command('daemon')
+  .description('Run a localhost JSON API for editors and other tools')
+  .option('-p, --port <port>', 'Port to listen on (127.0.0.1 only)', '9465')
+  .option('-i, --interval <duration>', 'How often to poll providers (e.g. 60s, 5m)', '60s')
+  .option('--debug', 'Enable debug output')
+  .addHelpText('after', `
+Endpoints (send "Authorization: Bearer <token>", token in the tokenlens config dir):
+  GET  /v1/providers         provider instances and their state
+  GET  /v1/usage             usage report (same schema as \`status --json\`)
+  GET  /v1/usage/:provider   one provider, e.g. /v1/usage/codex or /v1/usage/codex@work
+  POST /v1/refresh           fetch every provider now and return the report`)
+  .action((options) => {
+    if (options.debug) {
+      process.env.DEBUG = 'true';
+    }
+    const port = Number(options.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      console.error(chalk.red(`Invalid port: ${options.port}`));
+      process.exitCode = 1;
+      return;
+    }
+    const intervalMs = parseDuration(options.interval);
+    if (intervalMs == null || intervalMs < 5000) {
+      console.error(chalk.red(`Invalid interval: ${options.interval} (minimum 5s)`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const token = getDaemonToken();
+    const loop = startRefreshLoop(intervalMs);
+    const server = http.createServer((req, res) => {
+      handle(req, res, loop, token).catch((err) => {
+        sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+
+    server.on('error', (err) => {
+      console.error(chalk.red(`Could not start daemon: ${err.message}`));
+      loop.stop();
+      process.exitCode = 1;
+    });
+    server.listen(port, HOST, () => {
+      const url = `http://${HOST}:${port}`;
+      writeDaemonState({ pid: process.pid, port, url, startedAt: new Date().toISOString() });
+      process.on('exit', clearDaemonState);
+      console.log(chalk.green(`TokenLens daemon listening on ${url} (polling every ${options.interval})`));
+      console.log(chalk.dim(`Token: ${getDaemonTokenPath()}`));
+    });
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => {
+        loop.stop();
+        server.close(() => process.exit(0));
+      });
+    }
+  });
@@ -0,0 +1,213 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { providers, getProvider, type AuthFileInfo } from '../providers';
+import { getCodexAuthInfo, getCodexAuthPath } from '../providers/codex';
+import { getGeminiAuthInfo, getGeminiBinaryPath, getGeminiDir, getOAuthClientCredentials } from '../providers/gemini';
+import { httpFailure } from '../providers/failure';
+import { getAccounts, getPreferredBrowser } from '../utils/config';
+import { diagnoseProviderCookies, describeCookieSource } from '../utils/cookies';
+import { loadSqlJs } from '../utils/cookie-extractor/sqlite';
+import { createHttpClient } from '../utils/http';
+import { getProxyUrl } from '../utils/network';
+import { formatAge, formatShortCountdown } from '../utils/format';
+
+type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+interface Check {
+  status: CheckStatus;
+  label: string;
+  /** What to do about a warning or failure. */
+  hint?: string;
+}
+
+interface Section {
+  title: string;
+  checks: Check[];
+}
+
+const SYMBOLS: Record<CheckStatus, string> = {
+  pass: chalk.green('✓'),
+  warn: chalk.yellow('!'),
+  fail: chalk.red('✗'),
+  skip: chalk.gray('-'),
+};
+
+const CURSOR_LOGIN_HINT = 'Log in at cursor.com in your browser, or use --cookie-file / `tlens config set cursor-session`.';
+
+/** Short reachability probe: one attempt, any HTTP answer counts as reachable. */
+const http = createHttpClient('Doctor', { timeoutMs: 5000, maxRetries: 0 });
+
+function keyHint(osCryptName?: string): string {
+  if (process.platform === 'darwin') {
+    return `Allow access to "${osCryptName ?? 'Chrome Safe Storage'}" when the Keychain prompts (or in Keychain Access).`;
+  }
+  if (process.platform === 'linux') {
+    return 'Unlock your keyring (GNOME Keyring / KWallet) and make sure `secret-tool` is installed.';
+  }
+  return 'Run tlens as the same Windows user that runs the browser.';
+}
+
+async function cookieChecks(): Promise<Check[]> {
+  const checks: Check[] = [];
+  checks.push(
+    (await loadSqlJs())
+      ? { status: 'pass', label: 'sql.js initialized (reads Chromium and Firefox cookie databases)' }
+      : { status: 'fail', label: 'sql.js failed to initialize', hint: 'Reinstall tokenlens (`npm install -g tokenlens`); only Safari and cookie files work without it.' }
+  );
+
+  const { manual, browsers } = await diagnoseProviderCookies('cursor');
+  if (manual) {
+    checks.push({ status: 'pass', label: `Cursor session set via ${describeCookieSource(manual)} (used instead of browser cookies)` });
+  }
+  if (browsers.length === 0) {
+    checks.push({ status: manual ? 'skip' : 'fail', label: 'No supported browser profiles found', hint: manual ? undefined : CURSOR_LOGIN_HINT });
+    return checks;
+  }
+
+  const profiles = new Map<string, string[]>();
+  for (const b of browsers) profiles.set(b.config.name, [...(profiles.get(b.config.name) ?? []), b.config.profileName ?? b.config.profile ?? 'default']);
+  const found = Array.from(profiles, ([name, names]) => `${name} (${names.join(', ')})`).join(', ');
+  checks.push({ status: 'pass', label: `Browsers found: ${found}` });
+
+  const reportedKeys = new Set<string>();
+  for (const b of browsers) {
+    if (b.key) {
+      const keyId = `${b.config.name}:${b.config.userDataDir ?? ''}`;
+      if (!reportedKeys.has(keyId)) {
+        reportedKeys.add(keyId);
+        checks.push(
+          b.key.ok
+            ? { status: 'pass', label: `${b.config.name}: cookie decryption key available` }
+            : { status: 'fail', label: `${b.config.name}: could not get cookie decryption key (${b.key.error})`, hint: keyHint(b.config.osCryptName) }
+        );
+      }
+    }
+    if (b.error) {
+      checks.push({ status: 'warn', label: `${b.label}: could not read cookies (${b.error})` });
+    }
+  }
+
+  const withSession = browsers.filter((b) => b.matched.length > 0);
+  if (withSession.length === 0) {
+    checks.push({ status: manual ? 'skip' : 'fail', label: 'No Cursor session cookie in any browser', hint: manual ? undefined : CURSOR_LOGIN_HINT });
+    return checks;
+  }
+  for (const b of withSession) {
+    checks.push({ status: 'pass', label: `${b.label}: Cursor session cookie (${b.matched.join(', ')})` });
+  }
+  const preferred = getPreferredBrowser();
+  if (preferred && preferred !== 'all' && !withSession.some((b) => b.config.name === preferred)) {
+    checks.push({
+      status: 'warn',
+      label: `tlens only reads ${preferred}, which has no Cursor session`,
+      hint: `Run \`tlens config set browser ${withSession[0].config.name}\` (or \`all\`).`,
+    });
+  }
+  return checks;
+}
+
+function describeExpiry(info: AuthFileInfo): string {
+  if (!info.expiresAt) return '';
+  const now = Date.now();
+  return info.expiresAt.getTime() > now
+    ? `, token expires in ${formatShortCountdown(info.expiresAt, now)}`
+    : `, token expired ${formatAge(info.expiresAt, now)} ago`;
+}
+
+function authFileCheck(name: string, info: AuthFileInfo, loginHint: string, canRefresh: boolean): Check {
+  if (!info.exists) return { status: 'skip', label: `${name}: not logged in (no ${info.path})` };
+  if (info.error) return { status: 'fail', label: `${name}: ${info.path} is not usable (${info.error})`, hint: loginHint };
+  const label = `${name}: ${info.method} in ${info.path}${describeExpiry(info)}`;
+  if (!info.expiresAt || info.expiresAt.getTime() > Date.now()) return { status: 'pass', label };
+  if (info.refreshable && canRefresh) return { status: 'pass', label: `${label} (refreshed on the next fetch)` };
+  return { status: 'fail', label, hint: loginHint };
+}
+
+function authChecks(): Check[] {
+  const checks: Check[] = [];
+  checks.push(authFileCheck('Codex', getCodexAuthInfo(), 'Run `codex` to log in.', false));
+  for (const account of getAccounts('codex')) {
+    checks.push(authFileCheck(`Codex (${account.name})`, getCodexAuthInfo(getCodexAuthPath(account.home)), `Run \`CODEX_HOME=${account.home} codex\` to log in.`, false));
+  }
+
+  const oauthClient = getOAuthClientCredentials();
+  checks.push(authFileCheck('Gemini', getGeminiAuthInfo(), 'Run `gemini` to log in.', oauthClient !== null));
+  for (const account of getAccounts('gemini')) {
+    checks.push(authFileCheck(`Gemini (${account.name})`, getGeminiAuthInfo(getGeminiDir(account.home)), `Log in with the Gemini CLI using ${account.home}.`, oauthClient !== null));
+  }
+
+  const binary = getGeminiBinaryPath();
+  if (oauthClient) {
+    checks.push({ status: 'pass', label: `Gemini CLI OAuth client found (${binary})` });
+  } else if (!binary) {
+    checks.push({ status: 'warn', label: 'Gemini CLI not on PATH; expired Gemini tokens cannot be refreshed', hint: 'Install it with `npm install -g @google/gemini-cli`.' });
+  } else {
+    checks.push({ status: 'warn', label: `Could not find the OAuth client in the Gemini CLI install (${binary})`, hint: 'Update the Gemini CLI; tokens are refreshed only by `gemini` until then.' });
+  }
+  return checks;
+}
+
+async function endpointChecks(): Promise<Check[]> {
+  // One probe per host; several endpoints of a provider usually share one.
+  const urls = new Map<string, string>();
+  for (const provider of providers) {
+    for (const url of provider.endpoints) {
+      const host = new URL(url).host;
+      if (!urls.has(host)) urls.set(host, url);
+    }
+  }
+  const checks: Check[] = [];
+  const proxy = getProxyUrl(new URL('https://example.com'));
+  if (proxy) checks.push({ status: 'pass', label: `Using proxy ${proxy.host}` });
+  const probes = await Promise.all(
+    Array.from(urls, async ([host, url]): Promise<Check> => {
+      const started = Date.now();
+      try {
+        const res = await http.head(url, { validateStatus: () => true });
+        return { status: 'pass', label: `${host} reachable (HTTP ${res.status}, ${Date.now() - started}ms)` };
+      } catch (err) {
+        const { hint, detail } = httpFailure(err, host, '');
+        return { status: 'fail', label: `${host} unreachable${detail ? ` (${detail})` : ''}`, hint };
+      }
+    })
+  );
+  return [...checks, ...probes];
+}
+
+export const doctorCommand = new Command('doctor')
+  .description('Check browsers, cookies, auth files and endpoints, with hints for anything that fails')
+  .option('--no-network', 'Skip the endpoint reachability checks')
+  .action(async (options) => {
+    console.log(chalk.bold('TokenLens doctor\n'));
+    getProvider('cursor')?.notice?.forEach((line) => console.log(chalk.dim(line)));
+
+    const sections: Section[] = [
+      { title: 'Cursor cookies', checks: await cookieChecks() },
+      { title: 'Auth files', checks: authChecks() },
+    ];
+    if (options.network) {
+      sections.push({ title: 'Endpoints', checks: await endpointChecks() });
+    }
+
+    for (const section of sections) {
+      console.log(`\n${chalk.bold(section.title)}`);
+      for (const check of section.checks) {
+        const label = check.status === 'skip' ? chalk.gray(check.label) : check.label;
+        console.log(`  ${SYMBOLS[check.status]} ${label}`);
+        if (check.hint && check.status !== 'pass') console.log(chalk.gray(`      → ${check.hint}`));
+      }
+    }
+
+    const all = sections.flatMap((s) => s.checks);
+    const failed = all.filter((c) => c.status === 'fail').length;
+    const warned = all.filter((c) => c.status === 'warn').length;
+    console.log('');
+    if (failed > 0) {
+      console.log(chalk.red(`${failed} check${failed === 1 ? '' : 's'} failed${warned ? `, ${warned} warning${warned === 1 ? '' : 's'}` : ''}.`));
+      process.exitCode = 1;
+    } else if (warned > 0) {
+      console.log(chalk.yellow(`All checks passed with ${warned} warning${warned === 1 ? '' : 's'}.`));
+    } else {
+      console.log(chalk.green('All checks passed.'));
+    }
+  });
@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { providers, getProvider } from '../providers';
+import { getForecasts, type Forecast } from '../utils/forecast';
+import { formatAge, formatDate, formatShortCountdown, usageColor } from '../utils/format';
+
+function formatTimestamp(date: Date): string {
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function forecastLines(forecast: Forecast): string[] {
+  const span = formatAge(new Date(forecast.sampledAt.getTime() - forecast.spanMs), forecast.sampledAt.getTime());
+  const lines = [
+    chalk.gray('Used:      ') + usageColor(forecast.percent)(`${Math.round(forecast.percent)}%`) +
+      chalk.gray(` (at ${formatTimestamp(forecast.sampledAt)}, ${forecast.samples} sample${forecast.samples === 1 ? '' : 's'} over ${span})`),
+  ];
+  if (forecast.ratePerHour == null) {
+    lines.push(chalk.gray('Burn rate: not enough samples yet'));
+  } else {
+    lines.push(chalk.gray('Burn rate: ') + `${forecast.ratePerHour.toFixed(2)}%/h`);
+  }
+  if (forecast.exhaustsAt) {
+    const when = forecast.exhaustsAt.getTime() <= Date.now()
+      ? 'reached'
+      : `${formatTimestamp(forecast.exhaustsAt)} (in ${formatShortCountdown(forecast.exhaustsAt)})`;
+    const warning = forecast.beforeReset ? chalk.red('  ⚠ before reset') : '';
+    lines.push(chalk.gray('100% at:   ') + when + warning);
+  } else if (forecast.ratePerHour != null) {
+    lines.push(chalk.gray('100% at:   not at this rate'));
+  }
+  if (forecast.resetsAt) {
+    lines.push(chalk.gray(`Resets:    ${formatDate(forecast.resetsAt)}`));
+  }
+  return lines;
+}
+
+export const forecastCommand = new Command('forecast')
+  .description('Project when each usage window runs out, from the burn rate in recorded history')
+  .argument('[provider]', `Only show this provider (${providers.map((p) => p.id).join(', ')})`)
+  .action(async (providerId: string | undefined) => {
+    if (providerId && !getProvider(providerId)) {
+      console.error(chalk.red(`Unknown provider: ${providerId}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    let forecasts;
+    try {
+      forecasts = await getForecasts(providerId?.toLowerCase());
+    } catch (err) {
+      console.error(chalk.red(`Could not read history: ${(err as Error).message}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (forecasts.size === 0) {
+      console.log(chalk.gray('No recent history. Run `tlens status` (or `tlens watch`) a few times to record usage.'));
+      return;
+    }
+
+    for (const forecast of forecasts.values()) {
+      const providerName = getProvider(forecast.provider)?.name ?? forecast.provider;
+      const name = forecast.account ? `${providerName} · ${forecast.account}` : providerName;
+      console.log(chalk.bold(`[${name}] ${forecast.label}`));
+      const lines = forecastLines(forecast);
+      lines.forEach((line, i) => {
+        const branch = i === lines.length - 1 ? '└─' : '├─';
+        console.log(chalk.gray(`   ${branch} `) + line);
+      });
+      console.log('');
+    }
+  });
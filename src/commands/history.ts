@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { providers, getProvider } from '../providers';
+import { querySnapshots, buildSeries } from '../utils/history';
+import { parseDuration } from '../utils/duration';
+import { progressBar, usageColor } from '../utils/format';
+
+function formatTimestamp(date: Date): string {
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export const historyCommand = new Command('history')
+  .description('Show recorded usage over time (recorded on every `tlens status`)')
+  .argument('[provider]', `Only show this provider (${providers.map((p) => p.id).join(', ')})`)
+  .option('--since <duration>', 'How far back to look (e.g. 24h, 7d, 2w)', '7d')
+  .action(async (providerId: string | undefined, options) => {
+    if (providerId && !getProvider(providerId)) {
+      console.error(chalk.red(`Unknown provider: ${providerId}`));
+      process.exitCode = 1;
+      return;
+    }
+    const sinceMs = parseDuration(options.since);
+    if (sinceMs == null) {
+      console.error(chalk.red(`Invalid duration: ${options.since} (use e.g. 12h, 7d)`));
+      process.exitCode = 1;
+      return;
+    }
+
+    let snapshots;
+    try {
+      snapshots = await querySnapshots({
+        provider: providerId?.toLowerCase(),
+        since: new Date(Date.now() - sinceMs),
+      });
+    } catch (err) {
+      console.error(chalk.red(`Could not read history: ${(err as Error).message}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (snapshots.length === 0) {
+      console.log(chalk.gray(`No history since ${options.since} ago. Run \`tlens status\` to record usage.`));
+      return;
+    }
+
+    for (const [, points] of buildSeries(snapshots)) {
+      const first = points[0];
+      const providerName = getProvider(first.provider)?.name ?? first.provider;
+      const name = first.account ? `${providerName} · ${first.account}` : providerName;
+      const resets = points.filter((p) => p.reset).length;
+      console.log(chalk.bold(`[${name}] ${first.label}`) + chalk.gray(` (${points.length} samples, ${resets} reset${resets === 1 ? '' : 's'})`));
+      for (const point of points) {
+        const color = usageColor(point.percent);
+        const pct = `${Math.round(point.percent)}%`.padStart(4);
+        const marker = point.reset ? chalk.cyan('  ↺ reset') : '';
+        console.log(chalk.gray(`   ${formatTimestamp(point.timestamp)}  `) + color(`[${progressBar(point.percent)}] ${pct}`) + marker);
+      }
+      console.log('');
+    }
+  });
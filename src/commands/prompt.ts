@@ -0,0 +1,137 @@
+import { Command, Option } from 'commander';
+import chalk from 'chalk';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getProviderInstances, getProvider, providerInstanceKey, type ProviderResult, type UsageProvider } from '../providers';
+import { getProviderResults, readCachedResult } from '../utils/cache';
+import { runAlerts } from '../utils/alerts';
+import { getConfigDir, getCacheMaxAge } from '../utils/config';
+import { parseDuration } from '../utils/duration';
+import { recordSnapshots } from '../utils/history';
+import { parsePlaceholders, renderTemplate, type TemplateColor } from '../utils/template';
+
+/** Cached values younger than this are printed without fetching, unless a max age is configured. */
+const DEFAULT_MAX_AGE_MS = 60_000;
+const LOCK_FILE = 'prompt-refresh.lock';
+/** A background refresh older than this is assumed to have died. */
+const LOCK_TTL_MS = 60_000;
+/** How often the foreground checks whether the background refresh has updated the cache. */
+const POLL_MS = 25;
+
+function getLockPath(): string {
+  return path.join(getConfigDir(), LOCK_FILE);
+}
+
+/** Start a detached `tlens prompt --background-refresh` unless one is already running. */
+function spawnBackgroundRefresh(args: string[]): void {
+  try {
+    if (Date.now() - fs.statSync(getLockPath()).mtimeMs < LOCK_TTL_MS) return;
+  } catch {
+    // no refresh running
+  }
+  try {
+    fs.mkdirSync(getConfigDir(), { recursive: true });
+    fs.writeFileSync(getLockPath(), String(process.pid));
+    const child = spawn(process.execPath, [process.argv[1], 'prompt', ...args, '--background-refresh'], {
+      detached: true,
+      stdio: 'ignore',
+    });
+    child.unref();
+  } catch (err) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Prompt] Could not start background refresh: ${(err as Error).message}`));
+  }
+}
+
+/**
+ * Wait up to `budgetMs` for the background refresh to cache results fetched
+ * after `since`, and return the ones that arrived.
+ */
+async function waitForRefresh(providers: UsageProvider[], since: number, budgetMs: number): Promise<ProviderResult[]> {
+  const deadline = since + budgetMs;
+  for (;;) {
+    const fresh = providers
+      .map((provider) => readCachedResult(provider))
+      .filter((r): r is ProviderResult => r !== null && r.fetchedAt.getTime() >= since);
+    if (fresh.length === providers.length || Date.now() >= deadline) return fresh;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_MS, deadline - Date.now())));
+  }
+}
+
+export const promptCommand = new Command('prompt')
+  .description('Print a one-line usage summary for shell prompts and tmux status lines')
+  .requiredOption('-f, --format <template>', 'Template, e.g. "{codex.session}% {cursor.plan}%"')
+  .option('--color', 'Color percentages with ANSI escapes')
+  .option('--tmux', 'Color percentages with tmux #[fg=...] codes')
+  .option('--budget <duration>', 'Longest to wait for the background refresh before printing cached values', '300ms')
+  .option('--max-age <duration>', 'Print cached values younger than this without fetching (default: `config set max-age`, else 60s)')
+  .option('--missing <text>', 'Printed for values that are not available', '-')
+  .addOption(new Option('--background-refresh').hideHelp())
+  .addHelpText('after', `
+Placeholders:
+  {provider.window}          percent used, e.g. {codex.session} or {cursor.plan}
+  {provider.window.reset}    time until reset, e.g. 3h12m
+  {provider.window.used}     used amount (requests, cents, tokens or percent)
+  {provider.window.limit}    limit in the same unit
+  {provider@account.window}  a named account, e.g. {codex@work.weekly}`)
+  .action(async (options) => {
+    const placeholders = parsePlaceholders(options.format);
+    if (placeholders.length === 0) {
+      console.error(chalk.red('No placeholders in --format. Example: "{codex.session}% {cursor.plan}%"'));
+      process.exitCode = 1;
+      return;
+    }
+    const budgetMs = parseDuration(options.budget);
+    const maxAgeOverride = options.maxAge ? parseDuration(options.maxAge) : undefined;
+    if (budgetMs == null || maxAgeOverride === null) {
+      console.error(chalk.red(`Invalid duration: ${budgetMs == null ? options.budget : options.maxAge}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const instances = new Map<string, UsageProvider>();
+    for (const placeholder of placeholders) {
+      if (!getProvider(placeholder.provider)) {
+        console.error(chalk.red(`Unknown provider: ${placeholder.provider}`));
+        process.exitCode = 1;
+        return;
+      }
+      const candidates = getProviderInstances(placeholder.provider);
+      const instance = placeholder.account ? candidates.find((p) => p.account === placeholder.account) : candidates[0];
+      if (instance) instances.set(providerInstanceKey(instance), instance);
+    }
+
+    const now = Date.now();
+    const cached = new Map<UsageProvider, ProviderResult | null>();
+    for (const provider of instances.values()) cached.set(provider, readCachedResult(provider));
+    const stale = [...instances.values()].filter((provider) => {
+      const entry = cached.get(provider);
+      const maxAgeMs = maxAgeOverride ?? getCacheMaxAge(provider.id) ?? DEFAULT_MAX_AGE_MS;
+      return !entry || now - entry.fetchedAt.getTime() >= maxAgeMs;
+    });
+
+    // Only the background refresh fetches, records history and runs alerts,
+    // so none of it delays the prompt and no provider is fetched twice.
+    if (options.backgroundRefresh) {
+      try {
+        const fresh = await getProviderResults(stale, { maxAgeMs: 0 });
+        await recordSnapshots(fresh, { throttle: true });
+        await runAlerts(fresh);
+      } finally {
+        fs.rmSync(getLockPath(), { force: true });
+      }
+      return;
+    }
+
+    if (stale.length > 0) {
+      const args = ['--format', options.format];
+      if (options.maxAge) args.push('--max-age', options.maxAge);
+      spawnBackgroundRefresh(args);
+      const fresh = await waitForRefresh(stale, now, budgetMs);
+      fresh.forEach((result) => cached.set(result.provider, result));
+    }
+
+    const color: TemplateColor = options.tmux ? 'tmux' : options.color ? 'ansi' : 'none';
+    const results = [...cached.values()].filter((r): r is ProviderResult => r !== null);
+    console.log(renderTemplate(options.format, results, { color, missing: options.missing }));
+  });
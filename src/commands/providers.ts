@@ -1,11 +1,25 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { getApiKey } from '../utils/config';
-import { getProviderCookies } from '../utils/cookies';
-import { hasCodexAuth } from '../providers/codex';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
+import { getProviderInstances, providerDisplayName, type ProviderKind, type UsageProvider } from '../providers';
+import { getApiKeyLocation, getSessionTokenLocation } from '../utils/config';
+import { SECRET_BACKEND_LABELS } from '../utils/secret-store';
+
+const KIND_HEADINGS: Record<ProviderKind, string> = {
+  cookie: 'Browser session (cookies):',
+  'auth-file': 'CLI / auth file:',
+  'api-key': 'API key:',
+};
+
+/** Where the provider's configured key / session token is stored, e.g. " · key in Secret Service". */
+function secretLocations(provider: UsageProvider): string {
+  if (provider.account) return '';
+  const parts: string[] = [];
+  for (const [label, location] of [['key', getApiKeyLocation(provider.id)], ['session token', getSessionTokenLocation(provider.id)]] as const) {
+    if (!location) continue;
+    parts.push(`${label} in ${location === 'plaintext' ? 'config.json (plaintext)' : SECRET_BACKEND_LABELS[location]}`);
+  }
+  return parts.length ? chalk.dim(` · ${parts.join(', ')}`) : '';
+}
 
 export const providersCommand = new Command('providers')
   .description('Manage AI providers');
@@ -17,21 +31,23 @@ providersCommand
     console.log(chalk.blue.bold('Supported Providers'));
     console.log('');
 
-    const cursorCookie = await getProviderCookies('cursor');
-    const codexAuth = hasCodexAuth();
-    const geminiAuth = fs.existsSync(path.join(os.homedir(), '.gemini', 'oauth_creds.json'));
+    const providers = getProviderInstances();
+    const detections = await Promise.all(providers.map((p) => p.detect()));
+    const nameWidth = Math.max(...providers.map((p) => providerDisplayName(p).length)) + 2;
 
-    console.log(chalk.bold('Browser session (cookies):'));
-    console.log(`  ${cursorCookie ? chalk.green('[x]') : chalk.red('[ ]')} Cursor   ${cursorCookie ? chalk.green('(Logged in)') : chalk.dim('(Not found)')}`);
-    console.log('');
-    console.log(chalk.bold('CLI / auth file:'));
-    console.log(`  ${codexAuth ? chalk.green('[x]') : chalk.red('[ ]')} Codex   ${codexAuth ? chalk.green('(Auth file present)') : chalk.dim('(Run `codex` to log in)')}`);
-    console.log(`  ${geminiAuth ? chalk.green('[x]') : chalk.red('[ ]')} Gemini   ${geminiAuth ? chalk.green('(Auth file present)') : chalk.dim('(Run `gemini login`)')}`);
-    console.log('');
+    for (const kind of Object.keys(KIND_HEADINGS) as ProviderKind[]) {
+      const entries = providers
+        .map((provider, i) => ({ provider, detection: detections[i] }))
+        .filter(({ provider }) => provider.kind === kind);
+      if (entries.length === 0) continue;
+      console.log(chalk.bold(KIND_HEADINGS[kind]));
+      for (const { provider, detection } of entries) {
+        const mark = detection.detected ? chalk.green('[x]') : chalk.red('[ ]');
+        const message = detection.detected ? chalk.green(`(${detection.message})`) : chalk.dim(`(${detection.message})`);
+        console.log(`  ${mark} ${providerDisplayName(provider).padEnd(nameWidth)}${message}${secretLocations(provider)}`);
+      }
+      console.log('');
+    }
 
-    const copilotKey = getApiKey('copilot');
-    console.log(chalk.bold('API key (config):'));
-    console.log(`  ${copilotKey ? chalk.green('[x]') : chalk.red('[ ]')} Copilot  ${copilotKey ? chalk.green('(Configured)') : chalk.dim('(Optional)')}`);
-    console.log('');
     console.log(chalk.dim('Run `tlens status` to check usage.'));
   });
@@ -0,0 +1,65 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import http from 'http';
+import { parseDuration } from '../utils/duration';
+import { startRefreshLoop } from '../utils/refresh-loop';
+import { toPrometheusMetrics, METRICS_CONTENT_TYPE } from '../utils/metrics';
+
+export const serveCommand = new Command('serve')
+  .description('Serve Prometheus metrics on /metrics, polling providers on an interval')
+  .option('-p, --port <port>', 'Port to listen on', '9464')
+  .option('--host <host>', 'Address to bind (use 0.0.0.0 to allow remote scrapes)', '127.0.0.1')
+  .option('-i, --interval <duration>', 'How often to poll providers (e.g. 60s, 5m)', '60s')
+  .option('--debug', 'Enable debug output')
+  .action((options) => {
+    if (options.debug) {
+      process.env.DEBUG = 'true';
+    }
+    const port = Number(options.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      console.error(chalk.red(`Invalid port: ${options.port}`));
+      process.exitCode = 1;
+      return;
+    }
+    const intervalMs = parseDuration(options.interval);
+    if (intervalMs == null || intervalMs < 5000) {
+      console.error(chalk.red(`Invalid interval: ${options.interval} (minimum 5s)`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const loop = startRefreshLoop(intervalMs);
+    const server = http.createServer((req, res) => {
+      const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+        return;
+      }
+      if (pathname === '/metrics') {
+        res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+        res.end(req.method === 'HEAD' ? undefined : toPrometheusMetrics(loop.getResults()));
+        return;
+      }
+      if (pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' }).end('TokenLens exporter. Metrics are at /metrics\n');
+        return;
+      }
+      res.writeHead(404).end();
+    });
+
+    server.on('error', (err) => {
+      console.error(chalk.red(`Could not start server: ${err.message}`));
+      loop.stop();
+      process.exitCode = 1;
+    });
+    server.listen(port, options.host, () => {
+      console.log(chalk.green(`Serving metrics on http://${options.host}:${port}/metrics (polling every ${options.interval})`));
+    });
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => {
+        loop.stop();
+        server.close(() => process.exit(0));
+      });
+    }
+  });
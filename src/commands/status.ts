@@ -2,9 +2,15 @@ import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
-import { getCursorUsage, CursorUsage } from '../providers/cursor';
-import { getCodexUsage, hasCodexAuth } from '../providers/codex';
-import { getGeminiUsage, GeminiUsage } from '../providers/gemini';
+import { getProviderInstances, providerInstanceKey, providers } from '../providers';
+import { toJsonReport, toNdjsonLines } from '../utils/report';
+import { renderProviderLines } from '../utils/render';
+import { recordSnapshots } from '../utils/history';
+import { getForecasts, type Forecast } from '../utils/forecast';
+import { runAlerts } from '../utils/alerts';
+import { getProviderResults } from '../utils/cache';
+import { parseDuration } from '../utils/duration';
+import { formatAge } from '../utils/format';
 
 const LOGO_PALETTE = ['#00E676', '#00BFA5', '#1E88E5'] as const;
 
@@ -32,123 +38,102 @@ function renderLogo(): string {
     .map((line, i) => chalk.hex(LOGO_PALETTE[i % LOGO_PALETTE.length])(line))
     .join('\n');
 }
-function progressBar(percent: number, length = 10): string {
-  const filled = Math.min(length, Math.max(0, Math.round((percent / 100) * length)));
-  const empty = length - filled;
-  return '█'.repeat(filled) + '░'.repeat(empty);
-}
-
-function formatDate(date?: Date): string {
-  if (!date) return 'Unknown';
-  const now = new Date();
-  const diffTime = date.getTime() - now.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  
-  if (diffDays <= 0) {
-    const diffHours = Math.ceil(diffTime / (1000 * 60 * 60));
-    return `Reset in ${diffHours}h`;
-  }
-  
-  return `${date.toLocaleDateString()} (${diffDays} days)`;
-}
 
 export const statusCommand = new Command('status')
   .description('Check the status of your AI providers')
+  .argument('[provider]', `Only show this provider, or one account of it (e.g. codex@work); one of ${providers.map((p) => p.id).join(', ')}`)
   .option('--debug', 'Enable debug output')
-  .action(async (options) => {
+  .option('--json', 'Print a single JSON report (see README for the schema)')
+  .option('--ndjson', 'Print one JSON object per provider, one per line')
+  .option('--cookie-file <path>', 'Read Cursor cookies from a Netscape cookies.txt file instead of browsers')
+  .option('--cached', 'Only show cached results, never fetch')
+  .option('--max-age <duration>', 'Use cached results younger than this (e.g. 30s, 5m)')
+  .option('--refresh', 'Ignore the cache and fetch every provider')
+  .option('--details', 'Also fetch detailed breakdowns (Cursor: included vs on-demand spend, per-model usage)')
+  .action(async (providerArg: string | undefined, options) => {
     if (options.debug) {
         process.env.DEBUG = 'true';
     }
-    console.log(renderLogo());
-    console.log(chalk.blue.bold('TokenLens v0.1.0'));
-    console.log('');
-    console.log(chalk.gray('Checking providers...'));
-    console.log('');
+    if (options.cookieFile) {
+        process.env.TLENS_COOKIE_FILE = path.resolve(options.cookieFile);
+    }
+    if ([options.cached, options.maxAge, options.refresh].filter(Boolean).length > 1) {
+      console.error(chalk.red('Use only one of --cached, --max-age and --refresh'));
+      process.exitCode = 1;
+      return;
+    }
+    let maxAgeMs: number | undefined = options.refresh ? 0 : undefined;
+    if (options.maxAge) {
+      maxAgeMs = parseDuration(options.maxAge) ?? undefined;
+      if (maxAgeMs === undefined) {
+        console.error(chalk.red(`Invalid duration: ${options.maxAge} (use e.g. 30s, 5m)`));
+        process.exitCode = 1;
+        return;
+      }
+    }
+    // 'codex' selects every Codex account, 'codex@work' only that one.
+    const key = providerArg?.toLowerCase();
+    const instances = getProviderInstances().filter((p) => !key || p.id === key || providerInstanceKey(p).toLowerCase() === key);
+    if (instances.length === 0) {
+      console.error(chalk.red(`Unknown provider: ${providerArg}`));
+      process.exitCode = 1;
+      return;
+    }
+    const machine = options.json || options.ndjson;
 
-    const [cursor, codex, gemini] = await Promise.all([
-      (async () => {
-        console.log(chalk.dim('Note: You may be prompted to allow access to "Chrome Safe Storage" in your Keychain.'));
-        console.log(chalk.dim('      This is required to read encrypted cookies for Cursor.'));
-        return getCursorUsage();
-      })(),
-      getCodexUsage(),
-      getGeminiUsage(),
-    ]);
+    if (!machine) {
+      console.log(renderLogo());
+      console.log(chalk.blue.bold('TokenLens v0.1.0'));
+      console.log('');
+      console.log(chalk.gray('Checking providers...'));
+      console.log('');
+    }
 
-    // Cursor
-    if (cursor) {
-      const { plan, fastRequests, resetsAt } = cursor;
-      const color = plan.percent > 80 ? chalk.red : (plan.percent > 50 ? chalk.yellow : chalk.green);
-      console.log(color(`[Cursor ${plan.name}]      [${progressBar(plan.percent)}] ${Math.round(plan.percent)}% Used`));
-      if (fastRequests) {
-        console.log(chalk.gray(`   ├─ Fast Req:    ${fastRequests.used} / ${fastRequests.limit}`));
-      }
-      console.log(chalk.gray(`   └─ Resets:      ${formatDate(resetsAt)}`));
-    } else {
-      console.log(chalk.gray('[Cursor] Not logged in (check browser)'));
+    const noticed = new Set<string>();
+    const results = await getProviderResults(instances, {
+      maxAgeMs,
+      cachedOnly: options.cached,
+      beforeFetch: (provider) => {
+        if (machine || noticed.has(provider.id)) return;
+        noticed.add(provider.id);
+        provider.notice?.forEach((line) => console.log(chalk.dim(line)));
+      },
+    });
+    // Cached results were already recorded and alerted on when they were fetched.
+    const live = results.filter((r) => !r.cached);
+    await recordSnapshots(live);
+    await runAlerts(live);
+
+    // Details are never cached; with --cached there is nothing to show.
+    if (options.details && !options.cached) {
+      await Promise.all(
+        results.map(async (result) => {
+          if (result.state !== 'ok' || !result.provider.fetchDetails) return;
+          result.details = (await result.provider.fetchDetails()) ?? undefined;
+        })
+      );
     }
-    console.log('');
 
-    // Codex
-    if (codex?.connected) {
-      // console.log('[Codex] codex to >>>', codex);
-      const planStr = codex.plan ?? 'Unknown';
-      if (codex.session != null || codex.weekly != null) {
-        const sessionPct = codex.session?.percent ?? 0;
-        const color = sessionPct > 80 ? chalk.red : (sessionPct > 50 ? chalk.yellow : chalk.green);
-        console.log(color(`[Codex ${planStr}]        [${progressBar(sessionPct)}] ${Math.round(sessionPct)}% Session Used`));
-        if (codex.session?.resetsAt) {
-          console.log(chalk.gray(`   ├─ Session Reset: ${formatDate(codex.session.resetsAt)}`));
-        }
-        if (codex.weekly != null) {
-          const wpct = codex.weekly.percent;
-          const wcolor = wpct > 80 ? chalk.red : (wpct > 50 ? chalk.yellow : chalk.green);
-          console.log(chalk.gray('   └─ Weekly:        ') + wcolor(`${Math.round(wpct)}% Used`) + chalk.gray(` (Resets ${formatDate(codex.weekly.resetsAt)})`));
-        } else if (codex.session?.resetsAt) {
-          console.log(chalk.gray('   └─ Weekly:        —'));
-        }
-      } else {
-        console.log(chalk.green(`[Codex ${planStr}]        [Connected]`));
-      }
-      if (codex.credits != null && !codex.credits.unlimited && codex.credits.balance != null) {
-        console.log(chalk.gray(`   └─ Credits:       ${codex.credits.balance}`));
-      } else if (codex.credits?.unlimited) {
-        console.log(chalk.gray(`   └─ Credits:       Unlimited`));
-      }
-    } else if (hasCodexAuth()) {
-      console.log(chalk.red('[Codex] Token expired. Run `codex` to re-authenticate.'));
-    } else {
-      console.log(chalk.gray('[Codex] Not logged in. Run `codex` to log in.'));
+    if (options.ndjson) {
+      for (const line of toNdjsonLines(results)) console.log(line);
+      return;
+    }
+    if (options.json) {
+      console.log(JSON.stringify(toJsonReport(results), null, 2));
+      return;
     }
-    console.log('');
 
-    // Gemini
-    if (gemini) {
-      const planStr = gemini.plan || 'Unknown Plan';
-      const emailStr = gemini.email ? ` (${gemini.email})` : '';
-      
-      if (gemini.session || gemini.flash) {
-        console.log(chalk.green(`[Gemini Code Assist] ${planStr}${emailStr}`));
-        console.log(chalk.gray(`   (CLI / IDE usage only)`));
-        const hasPro = !!gemini.session;
-        const hasFlash = !!gemini.flash;
-        if (gemini.session) {
-          const pct = gemini.session.percent;
-          const color = pct > 80 ? chalk.red : (pct > 50 ? chalk.yellow : chalk.green);
-          const prefix = hasPro && hasFlash ? '   ├─ Pro:   ' : '   └─ Pro:   ';
-          console.log(chalk.gray(prefix) + color(`[${progressBar(pct)}] ${Math.round(pct)}% Used`) + chalk.gray(` (Resets ${formatDate(gemini.session.resetsAt)})`));
-        }
-        if (gemini.flash) {
-          const pct = gemini.flash.percent;
-          const color = pct > 80 ? chalk.red : (pct > 50 ? chalk.yellow : chalk.green);
-          console.log(chalk.gray('   └─ Flash: ') + color(`[${progressBar(pct)}] ${Math.round(pct)}% Used`) + chalk.gray(` (Resets ${formatDate(gemini.flash.resetsAt)})`));
-        }
-      } else {
-        console.log(chalk.green(`[Gemini CLI]      [Connected]${emailStr}`));
-        console.log(chalk.gray(`   └─ Plan:        ${planStr}`));
+    let forecasts = new Map<string, Forecast>();
+    try {
+      forecasts = await getForecasts();
+    } catch (err) {
+      if (process.env.DEBUG) {
+        console.error(chalk.yellow(`[Forecast] ${(err as Error).message}`));
       }
-    } else {
-        console.log(chalk.gray('[Gemini CLI] Not logged in via Gemini CLI. Run `gemini login` to connect.'));
     }
-    console.log('');
+    for (const result of results) {
+      const age = result.cached ? chalk.dim(` · cached ${formatAge(result.fetchedAt)} ago`) : '';
+      renderProviderLines(result, { headerSuffix: age, forecasts }).forEach((line) => console.log(line));
+      console.log('');
+    }
   });
@@ -0,0 +1,112 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { getProviderInstances, providerDisplayName, fetchProviderResult, type ProviderResult, type UsageProvider } from '../providers';
+import { createSnapshotRecorder } from '../utils/history';
+import { storeCachedResults } from '../utils/cache';
+import { runAlerts } from '../utils/alerts';
+import { parseDuration } from '../utils/duration';
+import { formatAge } from '../utils/format';
+import { renderProviderLines } from '../utils/render';
+
+const ENTER_ALT_SCREEN = '\x1b[?1049h\x1b[?25l';
+const EXIT_ALT_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR = '\x1b[H\x1b[2J';
+const TICK_MS = 1000;
+
+interface ProviderSlot {
+  provider: UsageProvider;
+  latest?: ProviderResult;
+  /** Last result with state 'ok', kept on screen when later fetches fail. */
+  lastGood?: ProviderResult;
+  fetching: boolean;
+  nextFetchAt: number;
+}
+
+function renderSlot(slot: ProviderSlot, now: number): string[] {
+  const { latest, lastGood } = slot;
+  if (!latest) {
+    return [chalk.gray(`[${providerDisplayName(slot.provider)}] Loading...`)];
+  }
+  if (latest.state !== 'ok' && lastGood) {
+    const reason = latest.state.replace(/_/g, ' ');
+    const marker = chalk.yellow(` [stale ${formatAge(lastGood.fetchedAt, now)}: ${reason}]`);
+    return renderProviderLines(lastGood, { countdown: true, headerSuffix: marker });
+  }
+  const age = chalk.dim(` · updated ${formatAge(latest.fetchedAt, now)} ago`);
+  return renderProviderLines(latest, { countdown: true, headerSuffix: age });
+}
+
+export const watchCommand = new Command('watch')
+  .description('Live dashboard that refreshes providers in place')
+  .option('-i, --interval <duration>', 'Refresh interval per provider (e.g. 30s, 5m)', '60s')
+  .option('--cookie-file <path>', 'Read Cursor cookies from a Netscape cookies.txt file instead of browsers')
+  .action(async (options) => {
+    if (options.cookieFile) {
+      process.env.TLENS_COOKIE_FILE = path.resolve(options.cookieFile);
+    }
+    const intervalMs = parseDuration(options.interval);
+    if (intervalMs == null || intervalMs < 5000) {
+      console.error(chalk.red(`Invalid interval: ${options.interval} (minimum 5s)`));
+      process.exitCode = 1;
+      return;
+    }
+
+    // Stagger the first fetches so providers keep independent schedules.
+    const slots: ProviderSlot[] = getProviderInstances().map((provider, i) => ({
+      provider,
+      fetching: false,
+      nextFetchAt: Date.now() + i * 250,
+    }));
+
+    const draw = () => {
+      const now = Date.now();
+      const lines: string[] = [
+        chalk.blue.bold('TokenLens watch') + chalk.gray(`  every ${options.interval} · ${new Date(now).toLocaleTimeString()} · Ctrl+C to exit`),
+        '',
+      ];
+      for (const slot of slots) {
+        lines.push(...renderSlot(slot, now));
+        const next = slot.fetching ? 'refreshing...' : `next refresh in ${Math.max(0, Math.ceil((slot.nextFetchAt - now) / 1000))}s`;
+        lines.push(chalk.dim(`   ${next}`));
+        lines.push('');
+      }
+      process.stdout.write(CLEAR + lines.join('\n'));
+    };
+
+    const recordSnapshots = createSnapshotRecorder();
+    const refresh = async (slot: ProviderSlot) => {
+      slot.fetching = true;
+      const result = await fetchProviderResult(slot.provider);
+      storeCachedResults([result]);
+      slot.latest = result;
+      if (result.state === 'ok') {
+        slot.lastGood = result;
+        await recordSnapshots([result]);
+        await runAlerts([result]);
+      }
+      slot.fetching = false;
+      slot.nextFetchAt = Date.now() + intervalMs;
+    };
+
+    const restore = () => {
+      process.stdout.write(EXIT_ALT_SCREEN);
+    };
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => {
+        restore();
+        process.exit(0);
+      });
+    }
+    process.on('exit', restore);
+
+    process.stdout.write(ENTER_ALT_SCREEN);
+    draw();
+    setInterval(() => {
+      const now = Date.now();
+      for (const slot of slots) {
+        if (!slot.fetching && now >= slot.nextFetchAt) void refresh(slot);
+      }
+      draw();
+    }, TICK_MS);
+  });
@@ -1,10 +1,19 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { setSqlJs } from './utils/cookie-extractor/sqlite';
 import { statusCommand } from './commands/status';
 import { configCommand } from './commands/config';
 import { providersCommand } from './commands/providers';
+import { historyCommand } from './commands/history';
+import { forecastCommand } from './commands/forecast';
+import { watchCommand } from './commands/watch';
+import { alertsCommand } from './commands/alerts';
+import { checkCommand } from './commands/check';
+import { accountsCommand } from './commands/accounts';
+import { promptCommand } from './commands/prompt';
+import { serveCommand } from './commands/serve';
+import { daemonCommand } from './commands/daemon';
+import { doctorCommand } from './commands/doctor';
 
 const program = new Command();
 
@@ -16,32 +25,15 @@ program
 program.addCommand(statusCommand);
 program.addCommand(configCommand);
 program.addCommand(providersCommand);
+program.addCommand(historyCommand);
+program.addCommand(forecastCommand);
+program.addCommand(watchCommand);
+program.addCommand(alertsCommand);
+program.addCommand(checkCommand);
+program.addCommand(accountsCommand);
+program.addCommand(promptCommand);
+program.addCommand(serveCommand);
+program.addCommand(daemonCommand);
+program.addCommand(doctorCommand);
 
-async function main(): Promise<void> {
-  // Init pure-JS sql.js for cookie reading (Chromium/Firefox DBs).
-  // Prefer sql-asm.js (self-contained); fall back to sql-wasm.js (needs .wasm file).
-  let initSqlJs: (() => Promise<{ Database: new (data?: Uint8Array | number[]) => { exec: (sql: string) => Array<{ columns: string[]; values: unknown[][] }>; close: () => void } }>) | undefined;
-  try {
-    initSqlJs = require('sql.js/dist/sql-asm.js');
-  } catch {
-    try {
-      initSqlJs = require('sql.js');
-    } catch {
-      // not available
-    }
-  }
-  if (initSqlJs) {
-    try {
-      const SQL = await initSqlJs();
-      setSqlJs(SQL);
-    } catch {
-      // init failed
-    }
-  }
-  program.parse(process.argv);
-}
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+program.parse(process.argv);
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getClaudeHome, sumTranscriptTokens } from './claude';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function entry(ts: number, id: string, input: number, output = 0): string {
+  return JSON.stringify({
+    timestamp: new Date(ts).toISOString(),
+    requestId: `req_${id}`,
+    message: { id: `msg_${id}`, usage: { input_tokens: input, output_tokens: output } },
+  });
+}
+
+function withConfigDir(fn: (dir: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tlens-claude-'));
+    process.env.CLAUDE_CONFIG_DIR = dir;
+    try {
+      await fn(dir);
+    } finally {
+      delete process.env.CLAUDE_CONFIG_DIR;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+test('reads CLAUDE_CONFIG_DIR at call time', withConfigDir(async (dir) => {
+  assert.equal(getClaudeHome(), dir);
+  assert.equal(await sumTranscriptTokens(NOW), null);
+}));
+
+test('sums the 5-hour and 7-day windows, counting each message once', withConfigDir(async (dir) => {
+  const project = path.join(dir, 'projects', '-work-app');
+  fs.mkdirSync(project, { recursive: true });
+  const lines = [
+    entry(NOW - HOUR, 'a', 100, 20),
+    entry(NOW - HOUR, 'a', 100, 20), // same message logged for a second content block
+    entry(NOW - 2 * 24 * HOUR, 'b', 1000),
+    entry(NOW - 8 * 24 * HOUR, 'c', 5000), // before the weekly window
+    '{"type":"summary"}',
+    '{"usage": not json',
+  ];
+  fs.writeFileSync(path.join(project, 'session.jsonl'), `${lines.join('\n')}\n`);
+  assert.deepEqual(await sumTranscriptTokens(NOW), { session: 120, weekly: 1120 });
+}));
+
+test('skips transcripts last modified before the weekly window', withConfigDir(async (dir) => {
+  const project = path.join(dir, 'projects', '-old');
+  fs.mkdirSync(project, { recursive: true });
+  const file = path.join(project, 'old.jsonl');
+  fs.writeFileSync(file, `${entry(NOW - HOUR, 'd', 500)}\n`);
+  const stale = new Date(NOW - 8 * 24 * HOUR);
+  fs.utimesSync(file, stale, stale);
+  assert.deepEqual(await sumTranscriptTokens(NOW), { session: 0, weekly: 0 });
+}));
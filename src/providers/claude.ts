@@ -0,0 +1,347 @@
+import chalk from 'chalk';
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { createHttpClient } from '../utils/http';
+import { failure, httpFailure, unexpectedShape } from './failure';
+import { percentWindow, type FetchResult, type ProviderFailure, type UsageProvider, type UsageWindow } from './types';
+
+const http = createHttpClient('Claude');
+
+const KEYCHAIN_SERVICE = 'Claude Code-credentials';
+const REFRESH_URL = 'https://console.anthropic.com/v1/oauth/token';
+const USAGE_URL = 'https://api.anthropic.com/api/oauth/usage';
+const OAUTH_CLIENT_ID = '9d1c250a-e61b-44d9-88ed-5944d1962f5e';
+const OAUTH_BETA = 'oauth-2025-04-20';
+/** Refresh a little before expiry so the usage call doesn't race it. */
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const FIVE_HOURS_MS = 5 * 60 * 60 * 1000;
+const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ClaudeUsage {
+  plan?: string;
+  email?: string;
+  session?: {
+    percent: number;
+    resetsAt?: Date;
+  };
+  weekly?: {
+    percent: number;
+    resetsAt?: Date;
+  };
+  weeklyOpus?: {
+    percent: number;
+    resetsAt?: Date;
+  };
+  /** Set when limits were unavailable and we summed local transcripts instead. */
+  localTokens?: {
+    session: number;
+    weekly: number;
+  };
+}
+
+interface OAuthCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  subscriptionType?: string;
+}
+
+interface LoadedCredentials {
+  creds: OAuthCredentials;
+  source: 'file' | 'keychain';
+  raw: Record<string, unknown>;
+}
+
+interface UsageBucket {
+  utilization?: number;
+  resets_at?: string | null;
+}
+
+interface UsageResponse {
+  five_hour?: UsageBucket | null;
+  seven_day?: UsageBucket | null;
+  seven_day_opus?: UsageBucket | null;
+}
+
+/** Claude Code's config dir, looked up per call so `CLAUDE_CONFIG_DIR` can change at runtime. */
+export function getClaudeHome(): string {
+  return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+}
+
+function getCredentialsPath(): string {
+  return path.join(getClaudeHome(), '.credentials.json');
+}
+
+function parseCredentials(text: string): { creds: OAuthCredentials; raw: Record<string, unknown> } | null {
+  const raw = JSON.parse(text) as Record<string, unknown>;
+  const oauth = raw.claudeAiOauth as OAuthCredentials | undefined;
+  if (!oauth?.accessToken) return null;
+  return { creds: oauth, raw };
+}
+
+/** Claude Code keeps OAuth tokens in ~/.claude/.credentials.json, or the Keychain on macOS. */
+function loadCredentials(): LoadedCredentials | null {
+  const credentialsPath = getCredentialsPath();
+  if (fs.existsSync(credentialsPath)) {
+    try {
+      const parsed = parseCredentials(fs.readFileSync(credentialsPath, 'utf-8'));
+      if (parsed) return { ...parsed, source: 'file' };
+    } catch (err) {
+      if (process.env.DEBUG) {
+        console.error(chalk.red(`[Claude] Failed to read credentials: ${(err as Error).message}`));
+      }
+    }
+  }
+  if (process.platform === 'darwin') {
+    try {
+      const out = execSync(`security find-generic-password -w -s "${KEYCHAIN_SERVICE}"`, {
+        encoding: 'utf8',
+        timeout: 5000,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      const parsed = parseCredentials(out.trim());
+      if (parsed) return { ...parsed, source: 'keychain' };
+    } catch {
+      if (process.env.DEBUG) console.log(chalk.gray(`[Claude] No "${KEYCHAIN_SERVICE}" Keychain item`));
+    }
+  }
+  return null;
+}
+
+function readAccountEmail(): string | undefined {
+  try {
+    const json = JSON.parse(fs.readFileSync(path.join(os.homedir(), '.claude.json'), 'utf-8')) as { oauthAccount?: { emailAddress?: string } };
+    return json.oauthAccount?.emailAddress;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Refresh file-based credentials and save them back. Anthropic rotates the
+ * refresh token, so this must never run for Keychain credentials: Claude Code
+ * would be left holding a revoked token.
+ */
+async function refreshTokens(loaded: LoadedCredentials): Promise<OAuthCredentials | null> {
+  const current = loaded.creds;
+  if (!current.refreshToken) return null;
+  try {
+    const res = await http.post(
+      REFRESH_URL,
+      {
+        grant_type: 'refresh_token',
+        refresh_token: current.refreshToken,
+        client_id: OAUTH_CLIENT_ID,
+      },
+      { headers: { 'Content-Type': 'application/json' }, timeout: 15000 }
+    );
+    const updated: OAuthCredentials = {
+      ...current,
+      accessToken: res.data?.access_token ?? current.accessToken,
+      refreshToken: res.data?.refresh_token ?? current.refreshToken,
+      expiresAt: res.data?.expires_in != null ? Date.now() + Number(res.data.expires_in) * 1000 : current.expiresAt,
+    };
+    const json = { ...loaded.raw, claudeAiOauth: { ...(loaded.raw.claudeAiOauth as object), ...updated } };
+    fs.writeFileSync(getCredentialsPath(), JSON.stringify(json, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    if (process.env.DEBUG) console.log(chalk.gray('[Claude] Tokens refreshed'));
+    return updated;
+  } catch (err: unknown) {
+    const e = err as { response?: { status?: number } };
+    if (process.env.DEBUG) {
+      console.error(chalk.yellow(`[Claude] Refresh failed: ${(err as Error).message}`));
+      if (e.response) console.error(chalk.yellow(`[Claude] Status: ${e.response.status}`));
+    }
+    return null;
+  }
+}
+
+function listTranscripts(dir: string, since: number): string[] {
+  const files: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listTranscripts(full, since));
+    } else if (entry.name.endsWith('.jsonl')) {
+      try {
+        if (fs.statSync(full).mtimeMs >= since) files.push(full);
+      } catch {
+        // skip
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Sum token counts from Claude Code's JSONL transcripts for the last 5 hours
+ * and 7 days. Files are streamed line by line, since long sessions grow large.
+ * Returns null when there are no transcripts at all.
+ */
+export async function sumTranscriptTokens(now = Date.now()): Promise<{ session: number; weekly: number } | null> {
+  const projectsDir = path.join(getClaudeHome(), 'projects');
+  if (!fs.existsSync(projectsDir)) return null;
+  const weekStart = now - SEVEN_DAYS_MS;
+  const sessionStart = now - FIVE_HOURS_MS;
+  const seen = new Set<string>();
+  let session = 0;
+  let weekly = 0;
+  for (const file of listTranscripts(projectsDir, weekStart)) {
+    const lines = readline.createInterface({ input: fs.createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.includes('"usage"')) continue;
+        try {
+          const entry = JSON.parse(line) as {
+            timestamp?: string;
+            requestId?: string;
+            message?: { id?: string; usage?: Record<string, number> };
+          };
+          const usage = entry.message?.usage;
+          if (!usage || !entry.timestamp) continue;
+          // Streamed responses are logged once per content block; count each message once.
+          const key = `${entry.message?.id ?? ''}:${entry.requestId ?? ''}`;
+          if (key !== ':' && seen.has(key)) continue;
+          seen.add(key);
+          const ts = new Date(entry.timestamp).getTime();
+          if (ts < weekStart) continue;
+          const tokens =
+            (usage.input_tokens ?? 0) +
+            (usage.output_tokens ?? 0) +
+            (usage.cache_creation_input_tokens ?? 0) +
+            (usage.cache_read_input_tokens ?? 0);
+          weekly += tokens;
+          if (ts >= sessionStart) session += tokens;
+        } catch {
+          // skip malformed line
+        }
+      }
+    } catch {
+      // unreadable file (e.g. removed mid-scan)
+    } finally {
+      lines.close();
+    }
+  }
+  return { session, weekly };
+}
+
+const LOGIN_HINT = 'Not logged in. Run `claude` to log in.';
+const EXPIRED_HINT = 'Token expired. Run `claude` to re-authenticate.';
+
+/** Token totals from local transcripts when limits are unavailable; `reason` if there are none. */
+async function localFallback(reason: ProviderFailure, plan?: string, email?: string): Promise<FetchResult<ClaudeUsage>> {
+  const tokens = await sumTranscriptTokens();
+  if (!tokens) return reason;
+  if (process.env.DEBUG) console.log(chalk.gray('[Claude] Using local transcript totals'));
+  return { status: 'ok', usage: { plan, email, localTokens: tokens } };
+}
+
+function parseBucket(bucket?: UsageBucket | null) {
+  if (!bucket || typeof bucket.utilization !== 'number') return undefined;
+  return {
+    percent: bucket.utilization,
+    resetsAt: bucket.resets_at ? new Date(bucket.resets_at) : undefined,
+  };
+}
+
+export async function getClaudeUsage(): Promise<FetchResult<ClaudeUsage>> {
+  const loaded = loadCredentials();
+  const email = readAccountEmail();
+  if (!loaded) {
+    if (process.env.DEBUG) console.log(chalk.gray(`[Claude] Credentials not found: ${getCredentialsPath()}`));
+    return localFallback(failure('not_configured', LOGIN_HINT), undefined, email);
+  }
+
+  let creds = loaded.creds;
+  const plan = creds.subscriptionType;
+  if (creds.expiresAt != null && Date.now() > creds.expiresAt - EXPIRY_SKEW_MS) {
+    // The Keychain item belongs to Claude Code; let it do the refresh.
+    if (loaded.source === 'keychain') return failure('auth_expired', EXPIRED_HINT, 'Keychain token expired');
+    const refreshed = await refreshTokens(loaded);
+    if (!refreshed) return failure('auth_expired', EXPIRED_HINT, 'token refresh failed');
+    creds = refreshed;
+  }
+
+  try {
+    const res = await http.get<UsageResponse>(USAGE_URL, {
+      headers: {
+        Authorization: `Bearer ${creds.accessToken}`,
+        Accept: 'application/json',
+        'anthropic-beta': OAUTH_BETA,
+        'User-Agent': 'claude-code',
+      },
+    });
+    const data = res.data;
+    if (!data || typeof data !== 'object' || !('five_hour' in data || 'seven_day' in data)) {
+      return localFallback(unexpectedShape('Claude', 'usage response has no five_hour / seven_day'), plan, email);
+    }
+    return {
+      status: 'ok',
+      usage: {
+        plan,
+        email,
+        session: parseBucket(data.five_hour),
+        weekly: parseBucket(data.seven_day),
+        weeklyOpus: parseBucket(data.seven_day_opus),
+      },
+    };
+  } catch (err: unknown) {
+    const e = err as { response?: { status?: number }; message?: string };
+    if (process.env.DEBUG) {
+      console.error(chalk.red(`[Claude] Usage API error: ${e.message}`));
+      if (e.response) console.error(chalk.red(`[Claude] Status: ${e.response.status}`));
+    }
+    const reason = httpFailure(err, 'Claude', EXPIRED_HINT, [401]);
+    return reason.status === 'auth_expired' ? reason : localFallback(reason, plan, email);
+  }
+}
+
+/** Returns true if Claude Code OAuth credentials are stored in the credentials file. */
+export function hasClaudeAuth(): boolean {
+  return fs.existsSync(getCredentialsPath());
+}
+
+export const claudeProvider: UsageProvider = {
+  id: 'claude',
+  name: 'Claude Code',
+  kind: 'auth-file',
+  endpoints: [USAGE_URL, REFRESH_URL],
+  async detect() {
+    if (hasClaudeAuth()) return { detected: true, message: 'Auth file present' };
+    if (process.platform === 'darwin' && loadCredentials()) return { detected: true, message: 'Keychain credentials' };
+    return { detected: false, message: 'Run `claude` to log in' };
+  },
+  async fetch(): Promise<FetchResult> {
+    const result = await getClaudeUsage();
+    if (result.status !== 'ok') return result;
+    const usage = result.usage;
+    const windows: UsageWindow[] = [];
+    if (usage.session) windows.push(percentWindow('session', 'Session', usage.session.percent, usage.session.resetsAt));
+    if (usage.weekly) windows.push(percentWindow('weekly', 'Weekly', usage.weekly.percent, usage.weekly.resetsAt));
+    if (usage.weeklyOpus) windows.push(percentWindow('opus', 'Opus', usage.weeklyOpus.percent, usage.weeklyOpus.resetsAt));
+    if (usage.localTokens) {
+      const { session, weekly } = usage.localTokens;
+      // Own ids: these are token totals without a limit, not the session / weekly limits.
+      windows.push({ id: 'session_tokens', label: 'Session', unit: 'tokens', used: session, limit: 0, percent: 0 });
+      windows.push({ id: 'weekly_tokens', label: 'Weekly', unit: 'tokens', used: weekly, limit: 0, percent: 0 });
+    }
+    return {
+      status: 'ok',
+      usage: {
+        plan: usage.plan,
+        email: usage.email,
+        note: usage.localTokens ? 'Limits unavailable; token totals from local transcripts' : undefined,
+        windows,
+      },
+    };
+  },
+};
@@ -1,19 +1,21 @@
-import axios from 'axios';
 import chalk from 'chalk';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
+import { createHttpClient } from '../utils/http';
+import { failure, httpFailure, unexpectedShape } from './failure';
+import { percentWindow, type AuthFileInfo, type FetchResult, type ProviderAccount, type UsageProvider, type UsageWindow } from './types';
+
+const http = createHttpClient('Codex');
 
-const CODEX_HOME = process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
-const AUTH_PATH = path.join(CODEX_HOME, 'auth.json');
 const REFRESH_URL = 'https://auth.openai.com/oauth/token';
 const USAGE_URL = 'https://chatgpt.com/backend-api/wham/usage';
 const OAUTH_CLIENT_ID = 'app_EMoamEEZ73f0CkXaXp7hrann';
 const REFRESH_INTERVAL_DAYS = 8;
 
 export interface CodexUsage {
-  connected: boolean;
   plan?: string;
+  email?: string;
   session?: {
     percent: number;
     resetsAt?: Date;
@@ -60,15 +62,21 @@ interface UsageResponse {
   };
 }
 
-function loadAuth(): AuthTokens | null {
-  if (!fs.existsSync(AUTH_PATH)) {
+/** auth.json inside the given Codex home, else $CODEX_HOME, else ~/.codex. */
+export function getCodexAuthPath(home?: string): string {
+  const codexHome = home || process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
+  return path.join(codexHome, 'auth.json');
+}
+
+function loadAuth(authPath: string): AuthTokens | null {
+  if (!fs.existsSync(authPath)) {
     if (process.env.DEBUG) {
-      console.log(chalk.gray(`[Codex] Auth file not found: ${AUTH_PATH}`));
+      console.log(chalk.gray(`[Codex] Auth file not found: ${authPath}`));
     }
     return null;
   }
   try {
-    const data = fs.readFileSync(AUTH_PATH, 'utf-8');
+    const data = fs.readFileSync(authPath, 'utf-8');
     const json = JSON.parse(data) as AuthJson;
     // API key auth (no tokens)
     if (json.OPENAI_API_KEY && String(json.OPENAI_API_KEY).trim()) {
@@ -96,10 +104,10 @@ function loadAuth(): AuthTokens | null {
   }
 }
 
-function needsRefresh(): boolean {
-  if (!fs.existsSync(AUTH_PATH)) return false;
+function needsRefresh(authPath: string): boolean {
+  if (!fs.existsSync(authPath)) return false;
   try {
-    const data = fs.readFileSync(AUTH_PATH, 'utf-8');
+    const data = fs.readFileSync(authPath, 'utf-8');
     const json = JSON.parse(data) as AuthJson;
     const last = json.last_refresh;
     if (!last) return true;
@@ -111,10 +119,10 @@ function needsRefresh(): boolean {
   }
 }
 
-async function refreshTokens(current: AuthTokens): Promise<AuthTokens | null> {
+async function refreshTokens(authPath: string, current: AuthTokens): Promise<AuthTokens | null> {
   if (!current.refresh_token) return null;
   try {
-    const res = await axios.post(
+    const res = await http.post(
       REFRESH_URL,
       {
         client_id: OAUTH_CLIENT_ID,
@@ -131,7 +139,7 @@ async function refreshTokens(current: AuthTokens): Promise<AuthTokens | null> {
     // Persist back to auth.json
     let json: Record<string, unknown> = {};
     try {
-      const raw = fs.readFileSync(AUTH_PATH, 'utf-8');
+      const raw = fs.readFileSync(authPath, 'utf-8');
       json = JSON.parse(raw) as Record<string, unknown>;
     } catch {
       // ignore
@@ -143,7 +151,7 @@ async function refreshTokens(current: AuthTokens): Promise<AuthTokens | null> {
     if (account_id) tokens.account_id = account_id;
     json.tokens = tokens;
     json.last_refresh = new Date().toISOString();
-    fs.writeFileSync(AUTH_PATH, JSON.stringify(json, null, 2), 'utf-8');
+    fs.writeFileSync(authPath, JSON.stringify(json, null, 2), 'utf-8');
     if (process.env.DEBUG) console.log(chalk.gray('[Codex] Tokens refreshed'));
     return { access_token, refresh_token, account_id, id_token };
   } catch (err: unknown) {
@@ -156,12 +164,36 @@ async function refreshTokens(current: AuthTokens): Promise<AuthTokens | null> {
   }
 }
 
-export async function getCodexUsage(): Promise<CodexUsage | null> {
-  let auth = loadAuth();
-  if (!auth) return null;
+/** Claims of a JWT (not verified), or undefined if it is not one. */
+function jwtClaims(token?: string): { email?: string; exp?: number } | undefined {
+  if (!token) return undefined;
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64').toString('utf-8')) as { email?: string; exp?: number };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Email claim from the OpenID id_token, if present. */
+function emailFromIdToken(idToken?: string): string | undefined {
+  return jwtClaims(idToken)?.email;
+}
+
+const EXPIRED_HINT = 'Token expired. Run `codex` to re-authenticate.';
 
-  if (needsRefresh() && auth.refresh_token) {
-    const refreshed = await refreshTokens(auth);
+/** Hint for a missing or unusable auth.json; named accounts point at their CODEX_HOME. */
+function loginHint(authPath: string): string {
+  return authPath === getCodexAuthPath()
+    ? 'Not logged in. Run `codex` to log in.'
+    : `Not logged in. Run \`CODEX_HOME=${path.dirname(authPath)} codex\` to log in.`;
+}
+
+export async function getCodexUsage(authPath = getCodexAuthPath()): Promise<FetchResult<CodexUsage>> {
+  let auth = loadAuth(authPath);
+  if (!auth) return failure('not_configured', loginHint(authPath));
+
+  if (needsRefresh(authPath) && auth.refresh_token) {
+    const refreshed = await refreshTokens(authPath, auth);
     if (refreshed) auth = refreshed;
   }
 
@@ -173,8 +205,11 @@ export async function getCodexUsage(): Promise<CodexUsage | null> {
   if (auth.account_id) headers['ChatGPT-Account-Id'] = auth.account_id;
 
   try {
-    const res = await axios.get<UsageResponse>(USAGE_URL, { headers, timeout: 10000 });
+    const res = await http.get<UsageResponse>(USAGE_URL, { headers });
     const data = res.data;
+    if (!data || typeof data !== 'object' || (!data.rate_limit && !data.plan_type)) {
+      return unexpectedShape('Codex', 'usage response has no rate_limit');
+    }
 
     const plan = data.plan_type ?? 'unknown';
     const primary = data.rate_limit?.primary_window;
@@ -202,11 +237,8 @@ export async function getCodexUsage(): Promise<CodexUsage | null> {
       : undefined;
 
     return {
-      connected: true,
-      plan,
-      session,
-      weekly,
-      credits,
+      status: 'ok',
+      usage: { plan, email: emailFromIdToken(auth.id_token), session, weekly, credits },
     };
   } catch (err: unknown) {
     const e = err as { response?: { status?: number }; message?: string };
@@ -214,14 +246,64 @@ export async function getCodexUsage(): Promise<CodexUsage | null> {
       console.error(chalk.red(`[Codex] Usage API error: ${e.message}`));
       if (e.response) console.error(chalk.red(`[Codex] Status: ${e.response.status}`));
     }
-    if (e.response?.status === 401 || e.response?.status === 403) {
-      return { connected: false, plan: 'Token expired' };
-    }
-    return null;
+    return httpFailure(err, 'Codex', EXPIRED_HINT);
   }
 }
 
 /** Returns true if Codex auth file exists (so we can show "expired" vs "not logged in"). */
-export function hasCodexAuth(): boolean {
-  return fs.existsSync(AUTH_PATH);
+export function hasCodexAuth(authPath = getCodexAuthPath()): boolean {
+  return fs.existsSync(authPath);
+}
+
+/** Login method and token expiry of an auth.json, for `tlens doctor`. */
+export function getCodexAuthInfo(authPath = getCodexAuthPath()): AuthFileInfo {
+  if (!fs.existsSync(authPath)) return { path: authPath, exists: false };
+  let json: AuthJson;
+  try {
+    json = JSON.parse(fs.readFileSync(authPath, 'utf-8')) as AuthJson;
+  } catch (err) {
+    return { path: authPath, exists: true, error: `Unreadable: ${(err as Error).message}` };
+  }
+  if (json.OPENAI_API_KEY && String(json.OPENAI_API_KEY).trim()) {
+    return { path: authPath, exists: true, method: 'API key' };
+  }
+  if (!json.tokens?.access_token) {
+    return { path: authPath, exists: true, error: 'No access_token in auth.json' };
+  }
+  const exp = jwtClaims(json.tokens.access_token)?.exp;
+  return {
+    path: authPath,
+    exists: true,
+    method: 'ChatGPT login',
+    expiresAt: typeof exp === 'number' ? new Date(exp * 1000) : undefined,
+    refreshable: Boolean(json.tokens.refresh_token),
+  };
 }
+
+/** Codex provider reading the default CODEX_HOME, or a named account's home. */
+export function createCodexProvider(account?: ProviderAccount): UsageProvider {
+  const authPath = getCodexAuthPath(account?.home);
+  return {
+    id: 'codex',
+    name: 'Codex',
+    account: account?.name,
+    kind: 'auth-file',
+    endpoints: [USAGE_URL, REFRESH_URL],
+    async detect() {
+      return hasCodexAuth(authPath)
+        ? { detected: true, message: 'Auth file present' }
+        : { detected: false, message: 'Run `codex` to log in' };
+    },
+    async fetch(): Promise<FetchResult> {
+      const result = await getCodexUsage(authPath);
+      if (result.status !== 'ok') return result;
+      const usage = result.usage;
+      const windows: UsageWindow[] = [];
+      if (usage.session) windows.push(percentWindow('session', 'Session', usage.session.percent, usage.session.resetsAt));
+      if (usage.weekly) windows.push(percentWindow('weekly', 'Weekly', usage.weekly.percent, usage.weekly.resetsAt));
+      return { status: 'ok', usage: { plan: usage.plan, email: usage.email, windows, credits: usage.credits } };
+    },
+  };
+}
+
+export const codexProvider = createCodexProvider();
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuota } from './copilot';
+
+test('computes percent from percent_remaining', () => {
+  assert.deepEqual(parseQuota({ entitlement: 300, remaining: 75, percent_remaining: 25 }), {
+    entitlement: 300,
+    remaining: 75,
+    percent: 75,
+    unlimited: false,
+  });
+});
+
+test('falls back to entitlement and remaining', () => {
+  assert.equal(parseQuota({ entitlement: 50, remaining: 40 })?.percent, 20);
+});
+
+test('keeps unlimited quotas without a percent', () => {
+  assert.deepEqual(parseQuota({ entitlement: 0, remaining: 0, percent_remaining: 100, unlimited: true }), {
+    entitlement: 0,
+    remaining: 0,
+    percent: 0,
+    unlimited: true,
+  });
+});
+
+test('drops quotas with no entitlement', () => {
+  assert.equal(parseQuota({ entitlement: 0, remaining: 0, percent_remaining: 0 }), undefined);
+  assert.equal(parseQuota({ percent_remaining: 100 }), undefined);
+  assert.equal(parseQuota(undefined), undefined);
+});
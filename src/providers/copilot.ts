@@ -0,0 +1,223 @@
+import chalk from 'chalk';
+import { execSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getApiKey } from '../utils/config';
+import { createHttpClient } from '../utils/http';
+import { failure, httpFailure, unexpectedShape } from './failure';
+import type { FetchResult, UsageProvider, UsageWindow } from './types';
+
+const http = createHttpClient('Copilot');
+
+const USER_URL = 'https://api.github.com/copilot_internal/user';
+
+export interface CopilotQuota {
+  entitlement: number;
+  remaining: number;
+  percent: number;
+  unlimited: boolean;
+}
+
+export interface CopilotUsage {
+  plan?: string;
+  premium?: CopilotQuota;
+  chat?: CopilotQuota;
+  completions?: CopilotQuota;
+  resetsAt?: Date;
+}
+
+export type CopilotTokenSource = 'config' | 'copilot' | 'gh';
+
+interface QuotaSnapshot {
+  entitlement?: number;
+  remaining?: number;
+  percent_remaining?: number;
+  unlimited?: boolean;
+}
+
+interface CopilotUserResponse {
+  copilot_plan?: string;
+  access_type_sku?: string;
+  quota_reset_date?: string;
+  quota_snapshots?: {
+    premium_interactions?: QuotaSnapshot;
+    chat?: QuotaSnapshot;
+    completions?: QuotaSnapshot;
+  };
+}
+
+function configHome(): string {
+  return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+}
+
+/** Token written by the Copilot editor plugins (VS Code, JetBrains, Neovim). */
+function readCopilotEditorToken(): string | null {
+  const dir = path.join(configHome(), 'github-copilot');
+  for (const file of ['apps.json', 'hosts.json']) {
+    const filePath = path.join(dir, file);
+    if (!fs.existsSync(filePath)) continue;
+    try {
+      const json = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, { oauth_token?: string }>;
+      for (const [host, entry] of Object.entries(json)) {
+        if (host.startsWith('github.com') && entry?.oauth_token) return entry.oauth_token;
+      }
+    } catch {
+      // skip
+    }
+  }
+  return null;
+}
+
+/** Token from the GitHub CLI: hosts.yml, or `gh auth token` when it lives in the keyring. */
+function readGhToken(): string | null {
+  const hostsPath = path.join(process.env.GH_CONFIG_DIR || path.join(configHome(), 'gh'), 'hosts.yml');
+  if (fs.existsSync(hostsPath)) {
+    try {
+      const content = fs.readFileSync(hostsPath, 'utf-8');
+      const block = content.split(/^(?=\S)/m).find((b) => b.startsWith('github.com:'));
+      const match = block?.match(/^\s+oauth_token:\s*(\S+)/m);
+      if (match?.[1]) return match[1];
+    } catch {
+      // skip
+    }
+  }
+  try {
+    const token = execSync('gh auth token --hostname github.com', {
+      encoding: 'utf-8',
+      timeout: 3000,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    return token || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Resolve a Copilot token: explicit config first, then editor plugin files, then gh. */
+export function findCopilotToken(): { token: string; source: CopilotTokenSource } | null {
+  const configured = getApiKey('copilot');
+  if (configured) return { token: configured, source: 'config' };
+  const editor = readCopilotEditorToken();
+  if (editor) return { token: editor, source: 'copilot' };
+  const gh = readGhToken();
+  if (gh) return { token: gh, source: 'gh' };
+  return null;
+}
+
+/** Quota from a snapshot; undefined when there is none, including a zero entitlement (nothing to track). */
+export function parseQuota(snapshot?: QuotaSnapshot): CopilotQuota | undefined {
+  if (!snapshot) return undefined;
+  const unlimited = snapshot.unlimited === true;
+  const entitlement = snapshot.entitlement ?? 0;
+  if (!unlimited && entitlement <= 0) return undefined;
+  const remaining = snapshot.remaining ?? entitlement;
+  let percent = 0;
+  if (!unlimited) {
+    if (typeof snapshot.percent_remaining === 'number') {
+      percent = 100 - snapshot.percent_remaining;
+    } else if (entitlement > 0) {
+      percent = ((entitlement - remaining) / entitlement) * 100;
+    }
+  }
+  return { entitlement, remaining, percent: Math.max(0, percent), unlimited };
+}
+
+export async function getCopilotUsage(): Promise<FetchResult<CopilotUsage>> {
+  const found = findCopilotToken();
+  if (!found) {
+    if (process.env.DEBUG) console.log(chalk.gray('[Copilot] No token in config, Copilot editor files or gh'));
+    return failure('not_configured', 'No token. Run `tlens config set copilot <token>` or `gh auth login`.');
+  }
+  if (process.env.DEBUG) console.log(chalk.gray(`[Copilot] Using token from ${found.source}`));
+
+  try {
+    const res = await http.get<CopilotUserResponse>(USER_URL, {
+      headers: {
+        Authorization: `token ${found.token}`,
+        Accept: 'application/json',
+        'Editor-Version': 'vscode/1.96.2',
+        'Editor-Plugin-Version': 'copilot-chat/0.26.7',
+        'User-Agent': 'GitHubCopilotChat/0.26.7',
+        'X-Github-Api-Version': '2025-04-01',
+      },
+    });
+    const data = res.data;
+    if (!data || typeof data !== 'object' || (!data.quota_snapshots && !data.copilot_plan && !data.access_type_sku)) {
+      return unexpectedShape('Copilot', 'user response has no quota_snapshots');
+    }
+    const snapshots = data.quota_snapshots ?? {};
+    return {
+      status: 'ok',
+      usage: {
+        plan: data.copilot_plan ?? data.access_type_sku ?? 'unknown',
+        premium: parseQuota(snapshots.premium_interactions),
+        chat: parseQuota(snapshots.chat),
+        completions: parseQuota(snapshots.completions),
+        resetsAt: data.quota_reset_date ? new Date(data.quota_reset_date) : undefined,
+      },
+    };
+  } catch (err: unknown) {
+    const e = err as { response?: { status?: number }; message?: string };
+    if (process.env.DEBUG) {
+      console.error(chalk.red(`[Copilot] Usage API error: ${e.message}`));
+      if (e.response) console.error(chalk.red(`[Copilot] Status: ${e.response.status}`));
+    }
+    // 404: the token works but has no Copilot access.
+    return httpFailure(err, 'Copilot', 'Token rejected. Run `tlens config set copilot <token>` or `gh auth refresh`.', [401, 403, 404]);
+  }
+}
+
+const SOURCE_LABELS: Record<CopilotTokenSource, string> = {
+  config: 'Configured',
+  copilot: 'Token from Copilot editor plugin',
+  gh: 'Token from gh CLI',
+};
+
+export const copilotProvider: UsageProvider = {
+  id: 'copilot',
+  name: 'Copilot',
+  kind: 'api-key',
+  endpoints: [USER_URL],
+  async detect() {
+    const found = findCopilotToken();
+    return found
+      ? { detected: true, message: SOURCE_LABELS[found.source] }
+      : { detected: false, message: 'Optional' };
+  },
+  async fetch(): Promise<FetchResult> {
+    const result = await getCopilotUsage();
+    if (result.status !== 'ok') return result;
+    const usage = result.usage;
+    const windows: UsageWindow[] = [];
+    const add = (id: string, label: string, quota?: CopilotQuota) => {
+      if (!quota || quota.unlimited) return;
+      windows.push({
+        id,
+        label,
+        unit: 'requests',
+        used: Math.max(0, Math.round(quota.entitlement - quota.remaining)),
+        limit: quota.entitlement,
+        percent: quota.percent,
+        resetsAt: usage.resetsAt,
+      });
+    };
+    add('premium', 'Premium', usage.premium);
+    add('chat', 'Chat', usage.chat);
+    add('completions', 'Completions', usage.completions);
+
+    const unlimited = [
+      usage.premium?.unlimited ? 'premium' : null,
+      usage.chat?.unlimited ? 'chat' : null,
+      usage.completions?.unlimited ? 'completions' : null,
+    ].filter(Boolean);
+    return {
+      status: 'ok',
+      usage: {
+        plan: usage.plan,
+        note: unlimited.length > 0 ? `Unlimited ${unlimited.join(' & ')}` : undefined,
+        windows,
+      },
+    };
+  },
+};
@@ -1,5 +1,16 @@
-import axios from 'axios';
-import { getProviderCookies } from '../utils/cookies';
+import chalk from 'chalk';
+import { createHttpClient } from '../utils/http';
+import { getProviderCookies, clearProviderCookies, resolveProviderCookies, describeCookieSource } from '../utils/cookies';
+import { failure, httpFailure, unexpectedShape } from './failure';
+import { percentWindow, type FetchResult, type ModelUsage, type ProviderAccount, type UsageDetails, type UsageProvider, type UsageWindow } from './types';
+
+const http = createHttpClient('Cursor', { timeoutMs: 15000 });
+
+const ME_URL = 'https://cursor.com/api/auth/me';
+const USAGE_SUMMARY_URL = 'https://cursor.com/api/usage-summary';
+const HARD_LIMIT_URL = 'https://cursor.com/api/dashboard/get-hard-limit';
+const USAGE_EVENTS_URL = 'https://cursor.com/api/dashboard/get-aggregated-usage-events';
+const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 export interface CursorUsage {
   plan: {
@@ -13,24 +24,46 @@ export interface CursorUsage {
     limit: number;
   };
   resetsAt?: Date;
+  email?: string;
+}
+
+/** Email of the logged-in Cursor user; only used to label the account. */
+async function getCursorEmail(cookieHeader: string): Promise<string | undefined> {
+  try {
+    const response = await http.get(ME_URL, {
+      headers: { 'Cookie': cookieHeader, 'User-Agent': USER_AGENT },
+    });
+    return typeof response.data?.email === 'string' ? response.data.email : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
-export async function getCursorUsage(): Promise<CursorUsage | null> {
-  const cookieHeader = await getProviderCookies('cursor');
+const NOT_CONFIGURED_HINT = 'No Cursor session found. Log in at cursor.com in your browser, or use --cookie-file / `tlens config set cursor-session`.';
+const EXPIRED_HINT = 'Cursor session expired. Log in at cursor.com again (or update the cookie file / session token).';
+
+export async function getCursorUsage(account?: ProviderAccount): Promise<FetchResult<CursorUsage>> {
+  const cookieHeader = await getProviderCookies('cursor', account);
   if (!cookieHeader) {
-    return null;
+    const hint = account
+      ? `No Cursor session for account "${account.name}". Check its browser profile, cookie file or session (\`tlens accounts list\`).`
+      : NOT_CONFIGURED_HINT;
+    return failure('not_configured', hint);
   }
 
   try {
-    const response = await axios.get('https://cursor.com/api/usage-summary', {
+    const response = await http.get(USAGE_SUMMARY_URL, {
       headers: {
         'Cookie': cookieHeader,
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'User-Agent': USER_AGENT,
       },
     });
 
     const data = response.data;
-    
+    if (!data || typeof data !== 'object' || (!data.individualUsage && !data.gpt4 && !data.membershipType)) {
+      return unexpectedShape('Cursor', 'usage-summary has no individualUsage');
+    }
+
     // Parse usage data
     // Note: The actual structure might vary, based on reference it seems to be:
     // individualUsage: { plan: { used, limit, totalPercentUsed }, ... }
@@ -56,7 +89,7 @@ export async function getCursorUsage(): Promise<CursorUsage | null> {
       limit: data.gpt4.maxRequestUsage || 500
     } : undefined;
 
-    return {
+    const usage: CursorUsage = {
       plan: {
         name: data.membershipType || 'Unknown',
         used: usedCents,
@@ -65,10 +98,168 @@ export async function getCursorUsage(): Promise<CursorUsage | null> {
       },
       fastRequests,
       resetsAt: data.billingCycleEnd ? new Date(data.billingCycleEnd) : undefined,
+      email: await getCursorEmail(cookieHeader),
     };
+    return { status: 'ok', usage };
 
   } catch (error) {
-    // console.error('Failed to fetch Cursor usage:', error);
+    const result = httpFailure(error, 'Cursor', EXPIRED_HINT);
+    // A rejected session may be stale in the cookie cache; read it again next time.
+    if (result.status === 'auth_expired') clearProviderCookies('cursor', account);
+    return result;
+  }
+}
+
+/** Dashboard APIs send numbers as strings at times (token counts); undefined if not numeric. */
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/** Hard limit on usage-based spend in cents, from the dashboard; undefined if none is set. */
+async function getHardLimitCents(headers: Record<string, string>): Promise<number | undefined> {
+  try {
+    const res = await http.post(HARD_LIMIT_URL, {}, { headers, retry: true });
+    const dollars = toNumber(res.data?.hardLimit);
+    return dollars !== undefined && dollars > 0 ? Math.round(dollars * 100) : undefined;
+  } catch (err) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Cursor] get-hard-limit failed: ${(err as Error).message}`));
+    return undefined;
+  }
+}
+
+/** Per-model token usage and cost between two dates, most expensive first. */
+async function getModelUsage(headers: Record<string, string>, start: Date, end: Date): Promise<ModelUsage[] | undefined> {
+  try {
+    const res = await http.post(
+      USAGE_EVENTS_URL,
+      { teamId: -1, startDate: String(start.getTime()), endDate: String(end.getTime()) },
+      { headers, retry: true }
+    );
+    const aggregations = res.data?.aggregations;
+    if (!Array.isArray(aggregations)) return undefined;
+    return aggregations
+      .filter((a) => a && typeof a.modelIntent === 'string')
+      .map((a) => ({
+        model: a.modelIntent as string,
+        inputTokens: toNumber(a.inputTokens) ?? 0,
+        outputTokens: toNumber(a.outputTokens) ?? 0,
+        cacheReadTokens: toNumber(a.cacheReadTokens) ?? 0,
+        cacheWriteTokens: toNumber(a.cacheWriteTokens) ?? 0,
+        costCents: toNumber(a.totalCents),
+      }))
+      .sort((a, b) => (b.costCents ?? 0) - (a.costCents ?? 0));
+  } catch (err) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Cursor] get-aggregated-usage-events failed: ${(err as Error).message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Included vs on-demand spend and per-model usage for the current billing
+ * cycle, from the dashboard APIs with the same session. Null if the summary
+ * itself cannot be read; the other parts are left out when they fail.
+ */
+export async function getCursorDetails(account?: ProviderAccount): Promise<UsageDetails | null> {
+  const cookieHeader = await getProviderCookies('cursor', account);
+  if (!cookieHeader) return null;
+  // The dashboard endpoints reject POSTs without a same-site Origin.
+  const headers = { 'Cookie': cookieHeader, 'User-Agent': USER_AGENT, 'Origin': 'https://cursor.com' };
+
+  let data;
+  try {
+    data = (await http.get(USAGE_SUMMARY_URL, { headers })).data;
+  } catch (err) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Cursor] usage-summary failed: ${(err as Error).message}`));
     return null;
   }
+  if (!data || typeof data !== 'object') return null;
+
+  const details: UsageDetails = {
+    cycleStart: data.billingCycleStart ? new Date(data.billingCycleStart) : undefined,
+    cycleEnd: data.billingCycleEnd ? new Date(data.billingCycleEnd) : undefined,
+  };
+  const plan = data.individualUsage?.plan;
+  if (plan) {
+    const breakdown = plan.breakdown ?? {};
+    details.included = {
+      used: toNumber(breakdown.included) ?? toNumber(plan.used) ?? 0,
+      limit: toNumber(plan.limit) ?? 0,
+      bonus: toNumber(breakdown.bonus) || undefined,
+    };
+  }
+  const onDemand = data.individualUsage?.onDemand;
+  if (onDemand) {
+    const limit = toNumber(onDemand.limit);
+    details.onDemand = {
+      enabled: onDemand.enabled !== false,
+      used: toNumber(onDemand.used) ?? 0,
+      limit: limit !== undefined && limit > 0 ? limit : await getHardLimitCents(headers),
+    };
+  }
+  if (details.cycleStart) {
+    details.models = await getModelUsage(headers, details.cycleStart, details.cycleEnd ?? new Date());
+  }
+  return details;
 }
+
+/** Cursor provider reading browser cookies, or a named account's profile/session. */
+export function createCursorProvider(account?: ProviderAccount): UsageProvider {
+  return {
+    id: 'cursor',
+    name: 'Cursor',
+    account: account?.name,
+    kind: 'cookie',
+    endpoints: [USAGE_SUMMARY_URL],
+    notice: [
+      'Note: You may be prompted to allow access to "Chrome Safe Storage" in your Keychain.',
+      '      This is required to read encrypted cookies for Cursor.',
+    ],
+    async detect() {
+      const cookies = await resolveProviderCookies('cursor', account);
+      return cookies
+        ? { detected: true, message: `Logged in via ${describeCookieSource(cookies.source)}` }
+        : { detected: false, message: 'Not found' };
+    },
+    fetchDetails() {
+      return getCursorDetails(account);
+    },
+    async fetch(): Promise<FetchResult> {
+      const result = await getCursorUsage(account);
+      if (result.status !== 'ok') return result;
+      const usage = result.usage;
+      // Some plans only report totalPercentUsed; keep that as a percent window so it still counts as limited.
+      const windows: UsageWindow[] = [
+        usage.plan.limit <= 0 && usage.plan.percent > 0
+          ? percentWindow('plan', 'Plan', usage.plan.percent, usage.resetsAt)
+          : {
+              id: 'plan',
+              label: 'Plan',
+              unit: 'cents',
+              used: usage.plan.used,
+              limit: usage.plan.limit,
+              percent: usage.plan.percent,
+              resetsAt: usage.resetsAt,
+            },
+      ];
+      if (usage.fastRequests) {
+        const { used, limit } = usage.fastRequests;
+        windows.push({
+          id: 'fast',
+          label: 'Fast Req',
+          unit: 'requests',
+          used,
+          limit,
+          percent: limit > 0 ? (used / limit) * 100 : 0,
+          resetsAt: usage.resetsAt,
+        });
+      }
+      // Cached by now; only worth mentioning when the session didn't come from a browser.
+      const cookies = await resolveProviderCookies('cursor', account);
+      const note = cookies && cookies.source !== 'browser' ? `session from ${describeCookieSource(cookies.source)}` : undefined;
+      return { status: 'ok', usage: { plan: usage.plan.name, email: usage.email, note, windows } };
+    },
+  };
+}
+
+export const cursorProvider = createCursorProvider();
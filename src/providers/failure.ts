@@ -0,0 +1,43 @@
+import { isAxiosError } from 'axios';
+import type { ProviderFailure, ProviderFailureReason } from './types';
+
+export function failure(status: ProviderFailureReason, hint: string, detail?: string): ProviderFailure {
+  return { status, hint, detail };
+}
+
+/** Retry-After (seconds or HTTP date) as a short "in 2m" phrase, or "later". */
+function retryAfterPhrase(value: unknown): string {
+  if (typeof value !== 'string') return 'later';
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  if (!Number.isFinite(ms) || ms <= 0) return 'later';
+  return ms < 60000 ? `in ${Math.ceil(ms / 1000)}s` : `in ${Math.ceil(ms / 60000)}m`;
+}
+
+/**
+ * Classify a failed request to `service`: rejected credentials (401/403 unless
+ * `authStatuses` says otherwise) become auth_expired with `authHint`.
+ */
+export function httpFailure(err: unknown, service: string, authHint: string, authStatuses = [401, 403]): ProviderFailure {
+  if (!isAxiosError(err)) {
+    return failure('unexpected_response', `Could not read the ${service} response; its API may have changed.`, (err as Error)?.message);
+  }
+  const status = err.response?.status;
+  if (status !== undefined) {
+    if (authStatuses.includes(status)) return failure('auth_expired', authHint, `HTTP ${status}`);
+    if (status === 429) {
+      return failure('rate_limited', `${service} is rate limiting requests; try again ${retryAfterPhrase(err.response?.headers['retry-after'])}.`, 'HTTP 429');
+    }
+    if (status >= 500) return failure('network_error', `${service} is having problems; try again later.`, `HTTP ${status}`);
+    return failure('unexpected_response', `${service} answered HTTP ${status}; its API may have changed.`, err.message);
+  }
+  if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT') {
+    return failure('network_error', `${service} did not answer in time. Check your connection or proxy settings.`, err.message);
+  }
+  return failure('network_error', `Could not reach ${service}. Check your connection or proxy settings.`, err.code ?? err.message);
+}
+
+/** Failure for a 200 response whose body is missing the fields we read. */
+export function unexpectedShape(service: string, detail?: string): ProviderFailure {
+  return failure('unexpected_response', `${service} returned data in an unknown format; its API may have changed.`, detail);
+}
@@ -1,13 +1,14 @@
-import axios from 'axios';
 import chalk from 'chalk';
 import { execSync } from 'child_process';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
+import { createHttpClient } from '../utils/http';
+import { failure, httpFailure, unexpectedShape } from './failure';
+import { percentWindow, type AuthFileInfo, type FetchResult, type ProviderAccount, type UsageProvider, type UsageWindow } from './types';
 
 export interface GeminiUsage {
   plan?: string;
-  connected: boolean;
   email?: string;
   session?: {
     percent: number;
@@ -19,12 +20,20 @@ export interface GeminiUsage {
   };
 }
 
-const CREDENTIALS_PATH = path.join(os.homedir(), '.gemini', 'oauth_creds.json');
+const http = createHttpClient('Gemini');
+
 const TOKEN_REFRESH_URL = 'https://oauth2.googleapis.com/token';
 const PROJECTS_URL = 'https://cloudresourcemanager.googleapis.com/v1/projects';
+const LOAD_CODE_ASSIST_URL = 'https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist';
+const QUOTA_URL = 'https://cloudcode-pa.googleapis.com/v1internal:retrieveUserQuota';
+
+/** Gemini CLI config dir: a named account's home, else ~/.gemini. */
+export function getGeminiDir(home?: string): string {
+  return home || path.join(os.homedir(), '.gemini');
+}
 
 /** Find the installed gemini CLI binary path. */
-function getGeminiBinaryPath(): string | null {
+export function getGeminiBinaryPath(): string | null {
   try {
     const cmd = process.platform === 'win32' ? 'where gemini' : 'which gemini';
     return execSync(cmd, { encoding: 'utf-8' }).trim().split('\n')[0] || null;
@@ -51,7 +60,7 @@ function getOAuth2Paths(geminiPath: string): string[] {
 }
 
 /** Extract OAuth client id/secret from Gemini CLI oauth2.js. */
-function getOAuthClientCredentials(): { clientId: string; clientSecret: string } | null {
+export function getOAuthClientCredentials(): { clientId: string; clientSecret: string } | null {
   const geminiPath = getGeminiBinaryPath();
   if (!geminiPath) return null;
 
@@ -85,6 +94,7 @@ function getOAuthClientCredentials(): { clientId: string; clientSecret: string }
 
 /** Refresh access token using refresh_token and persist to oauth_creds.json. */
 async function refreshAccessToken(
+  credentialsPath: string,
   refreshToken: string,
   clientId: string,
   clientSecret: string,
@@ -97,9 +107,8 @@ async function refreshAccessToken(
     grant_type: 'refresh_token',
   }).toString();
 
-  const res = await axios.post(TOKEN_REFRESH_URL, body, {
+  const res = await http.post(TOKEN_REFRESH_URL, body, {
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    timeout: 10000,
   });
 
   const accessToken = res.data?.access_token;
@@ -113,7 +122,7 @@ async function refreshAccessToken(
     updated.id_token = res.data.id_token;
   }
   try {
-    fs.writeFileSync(CREDENTIALS_PATH, JSON.stringify(updated, null, 2), 'utf-8');
+    fs.writeFileSync(credentialsPath, JSON.stringify(updated, null, 2), 'utf-8');
   } catch (e) {
     if (process.env.DEBUG) {
       console.error(chalk.yellow(`[Gemini] Could not write refreshed credentials: ${(e as Error).message}`));
@@ -125,9 +134,8 @@ async function refreshAccessToken(
 /** Fallback: discover a Gemini project ID from Cloud Resource Manager. */
 async function discoverProjectId(accessToken: string): Promise<string | null> {
   try {
-    const res = await axios.get(PROJECTS_URL, {
+    const res = await http.get(PROJECTS_URL, {
       headers: { Authorization: `Bearer ${accessToken}` },
-      timeout: 10000,
     });
     const projects = res.data?.projects as Array<{ projectId?: string; labels?: Record<string, string> }> | undefined;
     if (!Array.isArray(projects)) return null;
@@ -143,9 +151,19 @@ async function discoverProjectId(accessToken: string): Promise<string | null> {
   }
 }
 
-export async function getGeminiUsage(): Promise<GeminiUsage | null> {
-  if (!fs.existsSync(CREDENTIALS_PATH)) {
-    const settingsPath = path.join(os.homedir(), '.gemini', 'settings.json');
+const EXPIRED_HINT = 'Token expired. Run `gemini` to log in again.';
+
+/** Hint for missing or unusable credentials; named accounts point at their directory. */
+function loginHint(geminiDir: string): string {
+  return geminiDir === getGeminiDir()
+    ? 'Not logged in via Gemini CLI. Run `gemini login` to connect.'
+    : `No Gemini CLI credentials in ${geminiDir}.`;
+}
+
+export async function getGeminiUsage(geminiDir = getGeminiDir()): Promise<FetchResult<GeminiUsage>> {
+  const credentialsPath = path.join(geminiDir, 'oauth_creds.json');
+  if (!fs.existsSync(credentialsPath)) {
+    const settingsPath = path.join(geminiDir, 'settings.json');
     if (fs.existsSync(settingsPath)) {
       try {
         const settingsData = fs.readFileSync(settingsPath, 'utf-8');
@@ -154,24 +172,21 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
           console.log(chalk.gray('[Gemini] settings:', JSON.stringify(settings)));
         }
         if (settings.security?.auth?.selectedType === 'gemini-api-key') {
-          return {
-            connected: true,
-            plan: 'API Key (No Quota Data)',
-          };
+          return { status: 'ok', usage: { plan: 'API Key (No Quota Data)' } };
         }
       } catch {
         // ignore
       }
     }
     if (process.env.DEBUG) {
-      console.log(chalk.gray(`[Gemini] Credentials file not found at ${CREDENTIALS_PATH}`));
+      console.log(chalk.gray(`[Gemini] Credentials file not found at ${credentialsPath}`));
     }
-    return null;
+    return failure('not_configured', loginHint(geminiDir));
   }
 
   let creds: Record<string, unknown>;
   try {
-    const data = fs.readFileSync(CREDENTIALS_PATH, 'utf-8');
+    const data = fs.readFileSync(credentialsPath, 'utf-8');
     creds = JSON.parse(data);
     if (process.env.DEBUG) {
       console.log(chalk.gray('[Gemini] Loaded OAuth credentials.'));
@@ -180,7 +195,7 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     if (process.env.DEBUG) {
       console.error(chalk.red(`[Gemini] Failed to parse credentials: ${(err as Error).message}`));
     }
-    return null;
+    return failure('not_configured', loginHint(geminiDir), `unreadable ${credentialsPath}: ${(err as Error).message}`);
   }
 
   let accessToken = creds.access_token as string | undefined;
@@ -188,7 +203,7 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     if (process.env.DEBUG) {
       console.log(chalk.gray('[Gemini] No access token found in credentials'));
     }
-    return null;
+    return failure('not_configured', loginHint(geminiDir), 'no access_token in oauth_creds.json');
   }
 
   // If expired, try to refresh using refresh_token and Gemini CLI client credentials
@@ -199,6 +214,7 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     if (refreshToken && oauth) {
       try {
         const newToken = await refreshAccessToken(
+          credentialsPath,
           refreshToken,
           oauth.clientId,
           oauth.clientSecret,
@@ -213,19 +229,20 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
           if (process.env.DEBUG) {
             console.log(chalk.yellow('[Gemini] Token refresh failed or returned no access_token.'));
           }
-          return { connected: false, plan: 'Token Expired' };
+          return failure('auth_expired', EXPIRED_HINT, 'token refresh returned no access_token');
         }
       } catch (e) {
         if (process.env.DEBUG) {
           console.error(chalk.yellow(`[Gemini] Token refresh error: ${(e as Error).message}`));
         }
-        return { connected: false, plan: 'Token Expired' };
+        const reason = httpFailure(e, 'Google OAuth', EXPIRED_HINT, [400, 401]);
+        return reason.status === 'auth_expired' ? reason : { ...reason, hint: `Could not refresh the Gemini token. ${reason.hint}` };
       }
     } else {
       if (process.env.DEBUG) {
         console.log(chalk.yellow('[Gemini] Access token expired. Run "gemini" in terminal to re-auth, or ensure Gemini CLI is installed for auto-refresh.'));
       }
-      return { connected: false, plan: 'Token Expired' };
+      return failure('auth_expired', `${EXPIRED_HINT} (Installing the Gemini CLI lets tokenlens refresh it automatically.)`, 'no refresh token or OAuth client');
     }
   }
 
@@ -255,10 +272,10 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     let plan = 'Unknown Tier';
 
     try {
-      const codeAssistRes = await axios.post(
-        'https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist',
+      const codeAssistRes = await http.post(
+        LOAD_CODE_ASSIST_URL,
         { metadata: { ideType: 'GEMINI_CLI', pluginType: 'GEMINI' } },
-        { headers, timeout: 10000 }
+        { headers, retry: true }
       );
 
       const caData = codeAssistRes.data as {
@@ -284,7 +301,7 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
       }
       const ax = err as { response?: { status?: number } };
       if (ax.response?.status === 401) {
-        return { connected: false, plan: 'Token Expired (401)' };
+        return failure('auth_expired', EXPIRED_HINT, 'HTTP 401');
       }
     }
 
@@ -297,20 +314,23 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     }
 
     const quotaPayload = projectId ? { project: projectId } : {};
-    const quotaRes = await axios.post(
-      'https://cloudcode-pa.googleapis.com/v1internal:retrieveUserQuota',
+    const quotaRes = await http.post(
+      QUOTA_URL,
       quotaPayload,
-      { headers, timeout: 10000 }
+      { headers, retry: true }
     );
 
-    const buckets = (quotaRes.data?.buckets ?? []) as Array<{
+    if (!quotaRes.data || typeof quotaRes.data !== 'object') {
+      return unexpectedShape('Gemini', 'retrieveUserQuota returned no object');
+    }
+    const buckets = (quotaRes.data.buckets ?? []) as Array<{
       modelId?: string;
       remainingFraction?: number;
       resetTime?: string;
     }>;
 
     if (buckets.length === 0) {
-      return { connected: true, plan, email };
+      return { status: 'ok', usage: { plan, email } };
     }
 
     const proQuotas = buckets.filter((b) => b.modelId?.toLowerCase().includes('pro'));
@@ -337,11 +357,8 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
     };
 
     return {
-      connected: true,
-      plan,
-      email,
-      session: parseBucket(proBucket),
-      flash: parseBucket(flashBucket),
+      status: 'ok',
+      usage: { plan, email, session: parseBucket(proBucket), flash: parseBucket(flashBucket) },
     };
   } catch (error: unknown) {
     if (process.env.DEBUG) {
@@ -352,6 +369,71 @@ export async function getGeminiUsage(): Promise<GeminiUsage | null> {
         console.error(chalk.red(`[Gemini] Data: ${JSON.stringify(e.response.data)}`));
       }
     }
-    return null;
+    return httpFailure(error, 'Gemini', EXPIRED_HINT);
   }
 }
+
+/** Returns true if the Gemini CLI OAuth credentials file exists. */
+export function hasGeminiAuth(geminiDir = getGeminiDir()): boolean {
+  return fs.existsSync(path.join(geminiDir, 'oauth_creds.json'));
+}
+
+/** Login method and token expiry of oauth_creds.json, for `tlens doctor`. */
+export function getGeminiAuthInfo(geminiDir = getGeminiDir()): AuthFileInfo {
+  const credentialsPath = path.join(geminiDir, 'oauth_creds.json');
+  if (!fs.existsSync(credentialsPath)) return { path: credentialsPath, exists: false };
+  let creds: Record<string, unknown>;
+  try {
+    creds = JSON.parse(fs.readFileSync(credentialsPath, 'utf-8'));
+  } catch (err) {
+    return { path: credentialsPath, exists: true, error: `Unreadable: ${(err as Error).message}` };
+  }
+  if (!creds.access_token) {
+    return { path: credentialsPath, exists: true, error: 'No access_token in oauth_creds.json' };
+  }
+  const expiry = creds.expiry_date;
+  return {
+    path: credentialsPath,
+    exists: true,
+    method: 'Google login',
+    expiresAt: typeof expiry === 'number' ? new Date(expiry) : undefined,
+    // Refreshing also needs the Gemini CLI's OAuth client, which doctor checks separately.
+    refreshable: Boolean(creds.refresh_token),
+  };
+}
+
+/** Gemini provider reading ~/.gemini, or a named account's directory. */
+export function createGeminiProvider(account?: ProviderAccount): UsageProvider {
+  const geminiDir = getGeminiDir(account?.home);
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    account: account?.name,
+    kind: 'auth-file',
+    endpoints: [QUOTA_URL, TOKEN_REFRESH_URL],
+    async detect() {
+      return hasGeminiAuth(geminiDir)
+        ? { detected: true, message: 'Auth file present' }
+        : { detected: false, message: 'Run `gemini login`' };
+    },
+    async fetch(): Promise<FetchResult> {
+      const result = await getGeminiUsage(geminiDir);
+      if (result.status !== 'ok') return result;
+      const usage = result.usage;
+      const windows: UsageWindow[] = [];
+      if (usage.session) windows.push(percentWindow('pro', 'Pro', usage.session.percent, usage.session.resetsAt));
+      if (usage.flash) windows.push(percentWindow('flash', 'Flash', usage.flash.percent, usage.flash.resetsAt));
+      return {
+        status: 'ok',
+        usage: {
+          plan: usage.plan,
+          email: usage.email,
+          note: windows.length > 0 ? 'CLI / IDE usage only' : undefined,
+          windows,
+        },
+      };
+    },
+  };
+}
+
+export const geminiProvider = createGeminiProvider();
@@ -0,0 +1,38 @@
+import type { ProviderAccount, UsageProvider } from './types';
+import { cursorProvider, createCursorProvider } from './cursor';
+import { codexProvider, createCodexProvider } from './codex';
+import { geminiProvider, createGeminiProvider } from './gemini';
+import { copilotProvider } from './copilot';
+import { claudeProvider } from './claude';
+import { getAccounts } from '../utils/config';
+
+export type { UsageProvider, ProviderUsage, UsageWindow, UsageUnit, ProviderKind, ProviderAccount, FetchResult, ProviderFailure, ProviderFailureReason, AuthFileInfo, UsageDetails, ModelUsage } from './types';
+export { hasKnownLimit, providerDisplayName, providerInstanceKey } from './types';
+export { fetchProviderResult, type ProviderResult, type ProviderState } from './result';
+
+/** All known providers, in display order. Add new providers here. */
+export const providers: UsageProvider[] = [cursorProvider, codexProvider, claudeProvider, geminiProvider, copilotProvider];
+
+/** Providers that support `tlens accounts add`, keyed by id. */
+export const accountFactories: Partial<Record<string, (account: ProviderAccount) => UsageProvider>> = {
+  cursor: createCursorProvider,
+  codex: createCodexProvider,
+  gemini: createGeminiProvider,
+};
+
+export function getProvider(id: string): UsageProvider | undefined {
+  return providers.find((p) => p.id === id.toLowerCase());
+}
+
+/**
+ * Providers to fetch, in display order: a provider with named accounts is
+ * replaced by one instance per account, the rest are used as-is.
+ */
+export function getProviderInstances(id?: string): UsageProvider[] {
+  const selected = id ? providers.filter((p) => p.id === id.toLowerCase()) : providers;
+  return selected.flatMap((provider) => {
+    const factory = accountFactories[provider.id];
+    const accounts = getAccounts(provider.id);
+    return factory && accounts.length > 0 ? accounts.map(factory) : [provider];
+  });
+}
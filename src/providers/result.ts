@@ -0,0 +1,37 @@
+import type { ProviderFailureReason, ProviderUsage, UsageDetails, UsageProvider } from './types';
+
+/**
+ * State of a provider after a fetch: 'ok' or the failure reason. 'no_data' is
+ * only used for `--cached` runs when nothing has been cached yet.
+ */
+export type ProviderState = 'ok' | ProviderFailureReason | 'no_data';
+
+export interface ProviderResult {
+  provider: UsageProvider;
+  state: ProviderState;
+  usage: ProviderUsage | null;
+  /** What the user can do about a failure. */
+  hint?: string;
+  /** Technical detail of a failure (HTTP status, error message). */
+  error?: string;
+  fetchedAt: Date;
+  /** True when served from the on-disk cache instead of a live fetch. */
+  cached?: boolean;
+  /** Set by `status --details` for providers that have a breakdown. */
+  details?: UsageDetails;
+}
+
+/** Run a provider's fetch() and turn its outcome into a result. Never throws. */
+export async function fetchProviderResult(provider: UsageProvider): Promise<ProviderResult> {
+  const fetchedAt = new Date();
+  try {
+    const result = await provider.fetch();
+    if (result.status === 'ok') return { provider, state: 'ok', usage: result.usage, fetchedAt };
+    return { provider, state: result.status, usage: null, hint: result.hint, error: result.detail, fetchedAt };
+  } catch (err) {
+    // Providers return expected failures; anything thrown is a bug or a response we could not parse.
+    const message = err instanceof Error ? err.message : String(err);
+    const hint = `Could not read ${provider.name} usage. Run with --debug for details.`;
+    return { provider, state: 'unexpected_response', usage: null, hint, error: message, fetchedAt };
+  }
+}
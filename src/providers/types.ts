@@ -0,0 +1,145 @@
+/** Unit a usage window is measured in. 'tokens' windows may have no limit (limit 0). */
+export type UsageUnit = 'percent' | 'requests' | 'cents' | 'tokens';
+
+/** One quota/limit window reported by a provider (e.g. Codex weekly, Gemini Pro). */
+export interface UsageWindow {
+  /** Stable key, unique within a provider (e.g. 'session', 'weekly', 'plan'). */
+  id: string;
+  label: string;
+  unit: UsageUnit;
+  used: number;
+  limit: number;
+  percent: number;
+  resetsAt?: Date;
+}
+
+export interface ProviderCredits {
+  balance?: number;
+  unlimited?: boolean;
+}
+
+/** Normalized usage reported by a provider. */
+export interface ProviderUsage {
+  plan?: string;
+  email?: string;
+  /** Short caveat shown under the provider header (e.g. "CLI / IDE usage only"). */
+  note?: string;
+  windows: UsageWindow[];
+  credits?: ProviderCredits;
+}
+
+/** Usage of one model in the current billing cycle. */
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Cost in cents, when the provider reports it. */
+  costCents?: number;
+}
+
+/** Breakdown shown by `status --details`; providers fill in what they know. Amounts are in cents. */
+export interface UsageDetails {
+  cycleStart?: Date;
+  cycleEnd?: Date;
+  /** Usage covered by the plan; bonus is extra included usage granted on top of the limit. */
+  included?: { used: number; limit: number; bonus?: number };
+  /** Usage-based spend beyond the plan; limit is the user's hard limit, undefined when none is set. */
+  onDemand?: { enabled: boolean; used: number; limit?: number };
+  /** Most expensive first. */
+  models?: ModelUsage[];
+}
+
+/** Why a provider fetch produced no usage. */
+export type ProviderFailureReason = 'not_configured' | 'auth_expired' | 'network_error' | 'rate_limited' | 'unexpected_response';
+
+export interface ProviderFailure {
+  status: ProviderFailureReason;
+  /** What the user can do about it, e.g. "Run `codex` to log in." */
+  hint: string;
+  /** Technical detail (HTTP status, error code), shown dimmed and in JSON output. */
+  detail?: string;
+}
+
+/** Outcome of a provider fetch: usage, or the reason there is none. */
+export type FetchResult<T = ProviderUsage> = { status: 'ok'; usage: T } | ProviderFailure;
+
+/** Summary of a provider's auth file, reported by `tlens doctor`. */
+export interface AuthFileInfo {
+  path: string;
+  exists: boolean;
+  /** How the file authenticates, e.g. 'ChatGPT login' or 'API key'. */
+  method?: string;
+  /** When the stored access token expires, if known. */
+  expiresAt?: Date;
+  /** Whether an expired access token can be refreshed without the user. */
+  refreshable?: boolean;
+  /** Why the file cannot be used, when it exists. */
+  error?: string;
+}
+
+/** How a provider authenticates; used to group `providers list`. */
+export type ProviderKind = 'cookie' | 'auth-file' | 'api-key';
+
+export interface ProviderDetection {
+  detected: boolean;
+  message: string;
+}
+
+/** A named account added with `tlens accounts add`; which fields apply depends on the provider. */
+export interface ProviderAccount {
+  provider: string;
+  name: string;
+  /** Codex: CODEX_HOME directory. Gemini: directory holding oauth_creds.json (normally ~/.gemini). */
+  home?: string;
+  /** Cursor: browser profile (Chromium or Firefox) holding this account's session. */
+  browserProfile?: string;
+  /** Cursor: Netscape cookies.txt file for this account. */
+  cookieFile?: string;
+  /**
+   * Cursor: WorkosCursorSessionToken value, only in configs from before these
+   * moved to the secret store (see accountSessionKey).
+   */
+  session?: string;
+}
+
+export interface UsageProvider {
+  id: string;
+  name: string;
+  /** Named account this instance reads; undefined for the provider's default location. */
+  account?: string;
+  kind: ProviderKind;
+  /** Dim lines printed before fetching (e.g. Keychain prompt warnings). */
+  notice?: string[];
+  /** URLs fetch() talks to; `tlens doctor` checks they are reachable. */
+  endpoints: string[];
+  detect(): Promise<ProviderDetection>;
+  /** Expected failures (not set up, expired login, network, ...) are returned, not thrown. */
+  fetch(): Promise<FetchResult>;
+  /** Extra breakdown for `status --details`; null when it could not be read. Never throws. */
+  fetchDetails?(): Promise<UsageDetails | null>;
+}
+
+/** Provider name as shown to the user, with the account name when there is one. */
+export function providerDisplayName(provider: UsageProvider): string {
+  return provider.account ? `${provider.name} · ${provider.account}` : provider.name;
+}
+
+/** Key identifying a provider instance: 'codex', or 'codex@work' for a named account. */
+export function providerInstanceKey(provider: UsageProvider): string {
+  return provider.account ? `${provider.id}@${provider.account}` : provider.id;
+}
+
+/**
+ * Whether a window has a known limit. Without one (e.g. Claude's local token
+ * totals) its percent is not usage and must not be recorded, exported or checked.
+ */
+export function hasKnownLimit(window: UsageWindow): boolean {
+  return window.limit > 0;
+}
+
+/** Build a percent-unit window (used/limit expressed out of 100). */
+export function percentWindow(id: string, label: string, percent: number, resetsAt?: Date): UsageWindow {
+  return { id, label, unit: 'percent', used: percent, limit: 100, percent, resetsAt };
+}
@@ -0,0 +1,105 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProviderResult, UsageProvider } from '../providers';
+import { compare, evaluateAlerts, parseAlertRule } from './alerts';
+import { setAlertRules, setAlertState } from './config';
+
+const HOUR = 3_600_000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function result(percent: number, resetsAt?: Date, account?: string): ProviderResult {
+  const provider = { id: 'codex', name: 'Codex', account } as UsageProvider;
+  return {
+    provider,
+    state: 'ok',
+    usage: { windows: [{ id: 'weekly', label: 'Weekly', unit: 'percent', used: percent, limit: 100, percent, resetsAt }] },
+    fetchedAt: new Date(NOW),
+  };
+}
+
+beforeEach(() => {
+  setAlertState({});
+});
+
+test('parses rules with and without a reset condition', () => {
+  assert.deepEqual(parseAlertRule('codex.weekly > 75%'), { text: 'codex.weekly > 75%', provider: 'codex', window: 'weekly', op: '>', threshold: 75 });
+  assert.deepEqual(parseAlertRule('Cursor.Plan >= 90 with more than 5 days to reset').reset, { op: 'more', ms: 5 * 24 * HOUR });
+  assert.equal(parseAlertRule('cursor.plan >= 90 with more than 5 days to reset').provider, 'cursor');
+});
+
+test('rejects malformed rules and durations', () => {
+  assert.throws(() => parseAlertRule('codex weekly > 75'), /Invalid rule/);
+  assert.throws(() => parseAlertRule('codex.weekly > 75% with less than soon to reset'), /Invalid duration/);
+});
+
+test('compares with every operator', () => {
+  assert.equal(compare(80, '>', 80), false);
+  assert.equal(compare(80, '>=', 80), true);
+  assert.equal(compare(79, '<', 80), true);
+  assert.equal(compare(81, '<=', 80), false);
+});
+
+test('fires once per reset window and again after the reset', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  const resetsAt = new Date(NOW + 48 * HOUR);
+  assert.equal(evaluateAlerts([result(80, resetsAt)], NOW).length, 1);
+  assert.equal(evaluateAlerts([result(90, resetsAt)], NOW).length, 0);
+  const next = new Date(resetsAt.getTime() + 7 * 24 * HOUR);
+  assert.equal(evaluateAlerts([result(85, next)], NOW).length, 1);
+});
+
+test('does not fire again when the reset time drifts between fetches', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  const resetsAt = NOW + 48 * HOUR;
+  assert.equal(evaluateAlerts([result(80, new Date(resetsAt))], NOW).length, 1);
+  assert.equal(evaluateAlerts([result(81, new Date(resetsAt + 1000))], NOW + 60_000).length, 0);
+  assert.equal(evaluateAlerts([result(82, new Date(resetsAt - 2000))], NOW + 120_000).length, 0);
+  assert.equal(evaluateAlerts([result(83, new Date(resetsAt + 4 * 60_000))], NOW + 180_000).length, 0);
+});
+
+test('re-arms when usage drops back under the threshold', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  const resetsAt = new Date(NOW + 48 * HOUR);
+  assert.equal(evaluateAlerts([result(80, resetsAt)], NOW).length, 1);
+  assert.equal(evaluateAlerts([result(5, new Date(resetsAt.getTime() + 1000))], NOW).length, 0);
+  assert.equal(evaluateAlerts([result(80, resetsAt)], NOW).length, 1);
+});
+
+test('stays quiet when only the time-to-reset condition lapses', () => {
+  setAlertRules(['codex.weekly > 75% with more than 1 day to reset']);
+  const resetsAt = new Date(NOW + 48 * HOUR);
+  assert.equal(evaluateAlerts([result(80, resetsAt)], NOW).length, 1);
+  assert.equal(evaluateAlerts([result(85, resetsAt)], NOW + 30 * HOUR).length, 0);
+  assert.equal(evaluateAlerts([result(85, resetsAt)], NOW).length, 0);
+});
+
+test('checks the time to reset', () => {
+  setAlertRules(['codex.weekly > 75% with more than 1 day to reset']);
+  assert.equal(evaluateAlerts([result(80, new Date(NOW + 2 * HOUR))], NOW).length, 0);
+  const fired = evaluateAlerts([result(80, new Date(NOW + 48 * HOUR))], NOW);
+  assert.equal(fired.length, 1);
+  assert.match(fired[0].message, /Codex Weekly at 80%, resets in/);
+});
+
+test('tracks named accounts separately', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  const resetsAt = new Date(NOW + 48 * HOUR);
+  const fired = evaluateAlerts([result(80, resetsAt), result(80, resetsAt, 'work')], NOW);
+  assert.deepEqual(fired.map((a) => a.account), [undefined, 'work']);
+});
+
+test('windows without a reset time re-arm once the condition clears', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  assert.equal(evaluateAlerts([result(80)], NOW).length, 1);
+  assert.equal(evaluateAlerts([result(80)], NOW).length, 0);
+  assert.equal(evaluateAlerts([result(10)], NOW).length, 0);
+  assert.equal(evaluateAlerts([result(80)], NOW).length, 1);
+});
+
+test('ignores failed results and windows without a limit', () => {
+  setAlertRules(['codex.weekly > 75%']);
+  const limitless = result(80);
+  limitless.usage!.windows[0].limit = 0;
+  const failed: ProviderResult = { ...result(80), state: 'network_error', usage: null };
+  assert.equal(evaluateAlerts([limitless, failed], NOW).length, 0);
+});
@@ -0,0 +1,215 @@
+import chalk from 'chalk';
+import { exec, execFile } from 'child_process';
+import { hasKnownLimit, providerDisplayName, type ProviderResult, type UsageWindow } from '../providers';
+import { getAlertRules, getAlertSinks, getAlertState, setAlertState } from './config';
+import { parseDuration } from './duration';
+import { formatCountdown } from './format';
+import { createHttpClient } from './http';
+
+const http = createHttpClient('Alerts');
+
+export type AlertSink =
+  | { type: 'stderr' }
+  | { type: 'notify-send' }
+  | { type: 'command'; command: string }
+  | { type: 'webhook'; url: string };
+
+export type Comparator = '>' | '>=' | '<' | '<=';
+
+/** A parsed rule such as "cursor.plan > 90% with more than 5 days to reset". */
+export interface AlertRule {
+  text: string;
+  provider: string;
+  window: string;
+  op: Comparator;
+  threshold: number;
+  reset?: { op: 'more' | 'less'; ms: number };
+}
+
+export interface FiredAlert {
+  rule: AlertRule;
+  providerName: string;
+  /** Named account the alert fired for, if any. */
+  account?: string;
+  window: UsageWindow;
+  message: string;
+}
+
+/**
+ * Reset times that move by less than this are the same window: providers that
+ * report "seconds until reset" give a slightly different time on every fetch.
+ */
+const RESET_DRIFT_MS = 5 * 60 * 1000;
+
+const RULE_RE =
+  /^\s*([a-z0-9_-]+)\.([a-z0-9_-]+)\s*(>=|<=|>|<)\s*(\d+(?:\.\d+)?)\s*%?\s*(?:with\s+(more|less)\s+than\s+(.+?)\s+(?:to|until)\s+reset)?\s*$/i;
+
+/** Parse a rule string. Throws with a readable message if the syntax is wrong. */
+export function parseAlertRule(text: string): AlertRule {
+  const m = text.match(RULE_RE);
+  if (!m) {
+    throw new Error(`Invalid rule "${text}". Expected e.g. "codex.weekly > 75%" or "cursor.plan > 90% with more than 5 days to reset"`);
+  }
+  const rule: AlertRule = {
+    text: text.trim(),
+    provider: m[1].toLowerCase(),
+    window: m[2].toLowerCase(),
+    op: m[3] as Comparator,
+    threshold: Number(m[4]),
+  };
+  if (m[5]) {
+    const ms = parseDuration(m[6]);
+    if (ms == null) throw new Error(`Invalid duration "${m[6]}" in rule "${text}"`);
+    rule.reset = { op: m[5].toLowerCase() as 'more' | 'less', ms };
+  }
+  return rule;
+}
+
+export function compare(value: number, op: Comparator, threshold: number): boolean {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+function ruleMatches(rule: AlertRule, window: UsageWindow, now: number): boolean {
+  if (!compare(window.percent, rule.op, rule.threshold)) return false;
+  if (rule.reset) {
+    if (!window.resetsAt) return false;
+    const left = window.resetsAt.getTime() - now;
+    return rule.reset.op === 'more' ? left > rule.reset.ms : left < rule.reset.ms;
+  }
+  return true;
+}
+
+/** Whether the window reset since a rule fired with the stored reset time ('none' if it had none). */
+function windowRolledOver(stored: string, window: UsageWindow): boolean {
+  if (!window.resetsAt) return stored !== 'none';
+  if (stored === 'none') return true;
+  return window.resetsAt.getTime() > Date.parse(stored) + RESET_DRIFT_MS;
+}
+
+/**
+ * Evaluate configured rules against fresh results and return the ones that
+ * should fire. A rule fires at most once per reset window: we remember the
+ * window's resetsAt when it fired and stay quiet until it moves forward by
+ * more than RESET_DRIFT_MS, or until usage no longer meets the threshold.
+ */
+export function evaluateAlerts(results: ProviderResult[], now = Date.now()): FiredAlert[] {
+  const texts = getAlertRules();
+  if (texts.length === 0) return [];
+  const state = getAlertState();
+  const fired: FiredAlert[] = [];
+  let changed = false;
+
+  for (const text of texts) {
+    let rule: AlertRule;
+    try {
+      rule = parseAlertRule(text);
+    } catch {
+      continue;
+    }
+    // A rule applies to every account of its provider, each de-duplicated on its own.
+    for (const result of results.filter((r) => r.provider.id === rule.provider)) {
+      if (result.state !== 'ok' || !result.usage) continue;
+      const window = result.usage.windows.find((w) => w.id === rule.window);
+      if (!window || !hasKnownLimit(window)) continue;
+
+      const stateKey = result.provider.account ? `${text}@${result.provider.account}` : text;
+      const stored = state[stateKey];
+      if (!ruleMatches(rule, window, now)) {
+        // Re-arm once the window reset or usage fell back; not when only the time-to-reset condition stops holding.
+        if (stored && (windowRolledOver(stored, window) || !compare(window.percent, rule.op, rule.threshold))) {
+          delete state[stateKey];
+          changed = true;
+        }
+        continue;
+      }
+      if (stored && !windowRolledOver(stored, window)) continue;
+
+      state[stateKey] = window.resetsAt ? window.resetsAt.toISOString() : 'none';
+      changed = true;
+      const name = providerDisplayName(result.provider);
+      const resets = window.resetsAt ? `, resets in ${formatCountdown(window.resetsAt, now)}` : '';
+      fired.push({
+        rule,
+        providerName: name,
+        account: result.provider.account,
+        window,
+        message: `${name} ${window.label} at ${Math.round(window.percent)}%${resets} (rule: ${rule.text})`,
+      });
+    }
+  }
+
+  if (changed) setAlertState(state);
+  return fired;
+}
+
+function sendToSink(sink: AlertSink, alert: FiredAlert): Promise<void> {
+  switch (sink.type) {
+    case 'stderr':
+      console.error(chalk.yellow(`[Alert] ${alert.message}`));
+      return Promise.resolve();
+    case 'notify-send':
+      return new Promise((resolve, reject) => {
+        execFile('notify-send', ['TokenLens', alert.message], { timeout: 5000 }, (err) => (err ? reject(err) : resolve()));
+      });
+    case 'command':
+      return new Promise((resolve, reject) => {
+        exec(sink.command, {
+          timeout: 15000,
+          env: {
+            ...process.env,
+            TLENS_ALERT_MESSAGE: alert.message,
+            TLENS_ALERT_RULE: alert.rule.text,
+            TLENS_ALERT_PROVIDER: alert.rule.provider,
+            TLENS_ALERT_ACCOUNT: alert.account ?? '',
+            TLENS_ALERT_WINDOW: alert.rule.window,
+            TLENS_ALERT_PERCENT: String(Math.round(alert.window.percent)),
+          },
+        }, (err) => (err ? reject(err) : resolve()));
+      });
+    case 'webhook':
+      // Slack-compatible body: { text } is accepted by Slack, Mattermost, Discord (/slack) and most relays.
+      return http
+        .post(sink.url, {
+          text: `:warning: ${alert.message}`,
+          provider: alert.rule.provider,
+          account: alert.account ?? null,
+          window: alert.rule.window,
+          percent: alert.window.percent,
+          resetsAt: alert.window.resetsAt?.toISOString() ?? null,
+        })
+        .then(() => undefined);
+  }
+}
+
+export function describeSink(sink: AlertSink): string {
+  switch (sink.type) {
+    case 'command': return `command: ${sink.command}`;
+    case 'webhook': return `webhook: ${sink.url}`;
+    default: return sink.type;
+  }
+}
+
+/** Deliver fired alerts to every configured sink (stderr if none). Sink failures are reported, never thrown. */
+export async function dispatchAlerts(alerts: FiredAlert[]): Promise<void> {
+  if (alerts.length === 0) return;
+  const sinks = getAlertSinks();
+  const targets: AlertSink[] = sinks.length > 0 ? sinks : [{ type: 'stderr' }];
+  const jobs = alerts.flatMap((alert) =>
+    targets.map((sink) =>
+      sendToSink(sink, alert).catch((err: Error) => {
+        console.error(chalk.red(`[Alert] ${describeSink(sink)} failed: ${err.message}`));
+      })
+    )
+  );
+  await Promise.all(jobs);
+}
+
+/** Evaluate rules and dispatch anything that fired. */
+export async function runAlerts(results: ProviderResult[]): Promise<void> {
+  await dispatchAlerts(evaluateAlerts(results));
+}
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { getConfigDir, getCacheMaxAge } from './config';
+import { withFileLock, writeFileAtomic } from './files';
+import {
+  fetchProviderResult,
+  providerInstanceKey,
+  type ProviderResult,
+  type ProviderState,
+  type ProviderUsage,
+  type UsageProvider,
+  type UsageUnit,
+} from '../providers';
+
+const CACHE_FILE = 'cache.json';
+/** States worth caching: transient failures (network, rate limits, bad responses) are always refetched. */
+const CACHED_STATES: ProviderState[] = ['ok', 'not_configured', 'auth_expired'];
+
+interface CachedWindow {
+  id: string;
+  label: string;
+  unit: UsageUnit;
+  used: number;
+  limit: number;
+  percent: number;
+  resetsAt: string | null;
+}
+
+interface CachedResult {
+  state: ProviderState;
+  usage: (Omit<ProviderUsage, 'windows'> & { windows: CachedWindow[] }) | null;
+  hint?: string;
+  fetchedAt: string;
+}
+
+export interface CacheOptions {
+  /** Serve a cached result younger than this; 0 always fetches. Defaults to the configured max age. */
+  maxAgeMs?: number;
+  /** Never fetch; providers without a cached result come back as 'no_data'. */
+  cachedOnly?: boolean;
+  /** Called right before a provider is fetched live (e.g. to print its notice). */
+  beforeFetch?: (provider: UsageProvider) => void;
+}
+
+export function getCachePath(): string {
+  return path.join(getConfigDir(), CACHE_FILE);
+}
+
+function readCache(): Record<string, CachedResult> {
+  try {
+    const cache = JSON.parse(fs.readFileSync(getCachePath(), 'utf8')) as Record<string, CachedResult>;
+    // Entries written by older versions use states that no longer exist; treat them as misses.
+    for (const [key, entry] of Object.entries(cache)) {
+      if (!CACHED_STATES.includes(entry.state)) delete cache[key];
+    }
+    return cache;
+  } catch {
+    return {};
+  }
+}
+
+function toCached(result: ProviderResult): CachedResult {
+  const usage = result.usage
+    ? {
+        ...result.usage,
+        windows: result.usage.windows.map((w) => ({ ...w, resetsAt: w.resetsAt ? w.resetsAt.toISOString() : null })),
+      }
+    : null;
+  return { state: result.state, usage, hint: result.hint, fetchedAt: result.fetchedAt.toISOString() };
+}
+
+function fromCached(provider: UsageProvider, entry: CachedResult): ProviderResult {
+  const usage = entry.usage
+    ? {
+        ...entry.usage,
+        windows: entry.usage.windows.map((w) => ({ ...w, resetsAt: w.resetsAt ? new Date(w.resetsAt) : undefined })),
+      }
+    : null;
+  return { provider, state: entry.state, usage, hint: entry.hint, fetchedAt: new Date(entry.fetchedAt), cached: true };
+}
+
+/** Last cached result for a provider, whatever its age. */
+export function readCachedResult(provider: UsageProvider): ProviderResult | null {
+  const entry = readCache()[providerInstanceKey(provider)];
+  return entry ? fromCached(provider, entry) : null;
+}
+
+/**
+ * Store live results. Transient failures are not cached so they never hide
+ * the last good value from the next run.
+ */
+export function storeCachedResults(results: ProviderResult[]): void {
+  const live = results.filter((r) => !r.cached && CACHED_STATES.includes(r.state));
+  if (live.length === 0) return;
+  try {
+    // Merge under a lock and replace the file in one step: several tlens processes write here.
+    withFileLock(getCachePath(), () => {
+      const cache = readCache();
+      for (const result of live) cache[providerInstanceKey(result.provider)] = toCached(result);
+      writeFileAtomic(getCachePath(), JSON.stringify(cache, null, 2), 0o600);
+    });
+  } catch (err) {
+    if (process.env.DEBUG) {
+      console.error(chalk.yellow(`[Cache] Failed to write cache: ${(err as Error).message}`));
+    }
+  }
+}
+
+/**
+ * Results for the given providers, served from the cache when it is fresh
+ * enough and fetched live otherwise. Live results are written back.
+ */
+export async function getProviderResults(providers: UsageProvider[], options: CacheOptions = {}): Promise<ProviderResult[]> {
+  const cache = readCache();
+  const now = Date.now();
+  const results = await Promise.all(
+    providers.map(async (provider) => {
+      const entry = cache[providerInstanceKey(provider)];
+      if (options.cachedOnly) {
+        return entry
+          ? fromCached(provider, entry)
+          : { provider, state: 'no_data' as const, usage: null, hint: 'No cached data (run `tlens status` first).', fetchedAt: new Date(now) };
+      }
+      const maxAgeMs = options.maxAgeMs ?? getCacheMaxAge(provider.id) ?? 0;
+      if (entry && now - new Date(entry.fetchedAt).getTime() < maxAgeMs) {
+        if (process.env.DEBUG) console.log(chalk.dim(`[Cache] Using cached ${providerInstanceKey(provider)}`));
+        return fromCached(provider, entry);
+      }
+      options.beforeFetch?.(provider);
+      return fetchProviderResult(provider);
+    })
+  );
+  storeCachedResults(results);
+  return results;
+}
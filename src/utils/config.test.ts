@@ -0,0 +1,70 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import childProcess from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getApiKey, getApiKeyLocation, getConfigDir, setApiKey } from './config';
+import { PASSPHRASE_ENV } from './secret-store';
+
+const CONFIG_FILE = path.join(getConfigDir(), 'config.json');
+
+/** Edit config.json directly, as an older version (or another process) would. */
+function editConfig(edit: (json: Record<string, any>) => void): void {
+  const json = fs.existsSync(CONFIG_FILE) ? JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8')) : {};
+  edit(json);
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(json));
+}
+
+function readConfig(): Record<string, any> {
+  return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+}
+
+// Migration runs once per process, so this test has to come first.
+test('records a failed migration once and keeps the plaintext key', (t) => {
+  const store = mock.method(childProcess, 'execFileSync', () => {
+    throw new Error('not found');
+  });
+  const errors = mock.method(console, 'error', () => {});
+  t.after(() => {
+    store.mock.restore();
+    errors.mock.restore();
+  });
+  editConfig((json) => {
+    json.apiKeys = { legacy: 'sk-plain' };
+  });
+
+  assert.equal(getApiKey('legacy'), 'sk-plain');
+  assert.equal(getApiKeyLocation('legacy'), 'plaintext');
+  assert.match(readConfig().secretMigrationFailed['apiKeys.legacy'], new RegExp(PASSPHRASE_ENV));
+  assert.equal(errors.mock.callCount(), 1);
+  assert.match(String(errors.mock.calls[0].arguments[0]), /Kept apiKeys\.legacy in config\.json/);
+});
+
+test('saving the key again moves it and clears the failure', (t) => {
+  process.env[PASSPHRASE_ENV] = 'pass';
+  const store = mock.method(childProcess, 'execFileSync', () => {
+    throw new Error('not found');
+  });
+  t.after(() => {
+    delete process.env[PASSPHRASE_ENV];
+    store.mock.restore();
+  });
+
+  assert.equal(setApiKey('legacy', 'sk-new'), 'file');
+  const json = readConfig();
+  assert.equal(json.secretMigrationFailed, undefined);
+  assert.equal(json.apiKeys?.legacy, undefined);
+  assert.equal(getApiKey('legacy'), 'sk-new');
+});
+
+test('looks up an OS-stored secret once per process', (t) => {
+  const store = mock.method(childProcess, 'execFileSync', () => 'sk-keychain\n');
+  t.after(() => store.mock.restore());
+  editConfig((json) => {
+    json.secretBackends = { ...json.secretBackends, 'apiKeys.stored': 'keychain' };
+  });
+
+  assert.equal(getApiKey('stored'), 'sk-keychain');
+  assert.equal(getApiKey('stored'), 'sk-keychain');
+  assert.equal(store.mock.callCount(), 1);
+});
@@ -1,6 +1,13 @@
 import Conf from 'conf';
 import os from 'os';
 import path from 'path';
+import chalk from 'chalk';
+import type { AlertSink } from './alerts';
+import {
+  getOsSecretBackend, readOsSecret, writeOsSecret, deleteOsSecret, readSecretFile, writeSecretFile,
+  PASSPHRASE_ENV, type SecretBackend,
+} from './secret-store';
+import type { ProviderAccount } from '../providers/types';
 
 let config: Conf;
 
@@ -22,16 +29,215 @@ try {
   }
 }
 
+/** Directory holding config.json and other tokenlens state (history, cache, ...). */
+export function getConfigDir(): string {
+  return path.dirname(config.path);
+}
+
+const SECRETS_FILE = 'secrets.enc';
+/** Config sections whose values are secrets; they used to be stored here in plaintext. */
+const SECRET_SECTIONS = ['apiKeys', 'sessions'];
+let migrated = false;
+/** Secrets already resolved by this process, so each OS store lookup spawns at most once. */
+const secretCache = new Map<string, string | undefined>();
+
+export function getSecretFilePath(): string {
+  return path.join(getConfigDir(), SECRETS_FILE);
+}
+
+/** Backend holding each secret, keyed by its old config path (e.g. 'apiKeys.copilot'). */
+function getSecretBackends(): Record<string, SecretBackend> {
+  return { ...((config.get('secretBackends') as Record<string, SecretBackend>) || {}) };
+}
+
+function setSecretBackend(name: string, backend: SecretBackend | undefined): void {
+  const backends = getSecretBackends();
+  if (backend) backends[name] = backend;
+  else delete backends[name];
+  config.set('secretBackends', backends);
+}
+
+function deleteFromBackend(backend: SecretBackend, name: string): void {
+  if (backend !== 'file') {
+    deleteOsSecret(backend, name);
+    return;
+  }
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (!passphrase) return;
+  try {
+    const secrets = readSecretFile(getSecretFilePath(), passphrase);
+    delete secrets[name];
+    writeSecretFile(getSecretFilePath(), passphrase, secrets);
+  } catch {
+    // wrong passphrase: the stale entry stays encrypted and unreferenced
+  }
+}
+
+/**
+ * Store a secret in the OS secret store, or in the encrypted file when there is none.
+ * Throws when neither is usable (no OS store and no passphrase).
+ */
+function setSecret(name: string, value: string): SecretBackend {
+  const previous = getSecretBackends()[name];
+  const osBackend = getOsSecretBackend();
+  let backend: SecretBackend;
+  if (osBackend && writeOsSecret(osBackend, name, value)) {
+    backend = osBackend;
+  } else {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new Error(`No OS secret store available; set ${PASSPHRASE_ENV} to keep secrets in an encrypted file`);
+    }
+    const filePath = getSecretFilePath();
+    writeSecretFile(filePath, passphrase, { ...readSecretFile(filePath, passphrase), [name]: value });
+    backend = 'file';
+  }
+  if (previous && previous !== backend) deleteFromBackend(previous, name);
+  setSecretBackend(name, backend);
+  setMigrationFailure(name, undefined);
+  config.delete(name);
+  secretCache.set(name, value);
+  return backend;
+}
+
+function getSecret(name: string): string | undefined {
+  migratePlaintextSecrets();
+  if (secretCache.has(name)) return secretCache.get(name);
+  const value = resolveSecret(name);
+  secretCache.set(name, value);
+  return value;
+}
+
+function resolveSecret(name: string): string | undefined {
+  const plaintext = config.get(name);
+  if (typeof plaintext === 'string') return plaintext;
+  const backend = getSecretBackends()[name];
+  if (!backend) return undefined;
+  if (backend !== 'file') return readOsSecret(backend, name);
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (!passphrase) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Secrets] ${name} is in the encrypted file; set ${PASSPHRASE_ENV} to read it`));
+    return undefined;
+  }
+  try {
+    return readSecretFile(getSecretFilePath(), passphrase)[name];
+  } catch (err) {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Secrets] ${(err as Error).message}`));
+    return undefined;
+  }
+}
+
+function removeSecret(name: string): void {
+  const backend = getSecretBackends()[name];
+  if (backend) deleteFromBackend(backend, name);
+  setSecretBackend(name, undefined);
+  setMigrationFailure(name, undefined);
+  config.delete(name);
+  secretCache.delete(name);
+}
+
+/** Plaintext secrets that could not be moved out of config.json, with the reason. */
+function getMigrationFailures(): Record<string, string> {
+  return { ...((config.get('secretMigrationFailed') as Record<string, string>) || {}) };
+}
+
+function setMigrationFailure(name: string, reason: string | undefined): void {
+  const failures = getMigrationFailures();
+  if (!(name in failures) && reason === undefined) return;
+  if (reason === undefined) delete failures[name];
+  else failures[name] = reason;
+  if (Object.keys(failures).length > 0) config.set('secretMigrationFailed', failures);
+  else config.delete('secretMigrationFailed');
+}
+
+/** Move one plaintext secret to the secret store; a failure is recorded and warned about once. */
+function migrateSecret(name: string, value: string, failures: Record<string, string>): boolean {
+  if (name in failures) return false;
+  try {
+    setSecret(name, value);
+    return true;
+  } catch (err) {
+    const reason = (err as Error).message;
+    setMigrationFailure(name, reason);
+    console.error(chalk.yellow(`Kept ${name} in config.json: ${reason}. Save it again with \`tlens config\` to move it.`));
+    return false;
+  }
+}
+
+/** Where a secret lives: a backend, 'plaintext' if it could not be migrated yet, or undefined if unset. */
+function getSecretLocation(name: string): SecretBackend | 'plaintext' | undefined {
+  migratePlaintextSecrets();
+  if (typeof config.get(name) === 'string') return 'plaintext';
+  return getSecretBackends()[name];
+}
+
+/**
+ * Move secrets written by older versions out of config.json, once per process.
+ * Secrets that cannot be stored stay in plaintext and are not retried on later
+ * runs; saving one again (which clears the failure) moves it.
+ */
+function migratePlaintextSecrets(): void {
+  if (migrated) return;
+  migrated = true;
+  const failures = getMigrationFailures();
+  for (const section of SECRET_SECTIONS) {
+    const values = (config.get(section) as Record<string, unknown>) || {};
+    for (const [key, value] of Object.entries(values)) {
+      if (typeof value === 'string') migrateSecret(`${section}.${key}`, value, failures);
+    }
+  }
+  // Named Cursor accounts kept their session token in accounts[].
+  const accounts = getAccounts();
+  let moved = false;
+  for (const account of accounts) {
+    if (typeof account.session !== 'string') continue;
+    if (migrateSecret(`sessions.${accountSessionKey(account)}`, account.session, failures)) {
+      delete account.session;
+      moved = true;
+    }
+  }
+  if (moved) setAccounts(accounts);
+}
+
 export function getApiKey(provider: string): string | undefined {
-  return config.get(`apiKeys.${provider}`) as string | undefined;
+  return getSecret(`apiKeys.${provider}`);
 }
 
-export function setApiKey(provider: string, key: string): void {
-  config.set(`apiKeys.${provider}`, key);
+/** Stores the key in the secret store and returns the backend used; throws if none is usable. */
+export function setApiKey(provider: string, key: string): SecretBackend {
+  migratePlaintextSecrets();
+  return setSecret(`apiKeys.${provider}`, key);
 }
 
 export function removeApiKey(provider: string): void {
-  config.delete(`apiKeys.${provider}`);
+  removeSecret(`apiKeys.${provider}`);
+}
+
+export function getApiKeyLocation(provider: string): SecretBackend | 'plaintext' | undefined {
+  return getSecretLocation(`apiKeys.${provider}`);
+}
+
+/** Session token key of a named account, e.g. 'cursor@work'; use it in place of the provider id below. */
+export function accountSessionKey(account: Pick<ProviderAccount, 'provider' | 'name'>): string {
+  return `${account.provider}@${account.name}`;
+}
+
+/** Manually provided session token for a cookie-based provider (e.g. Cursor). */
+export function getSessionToken(provider: string): string | undefined {
+  return getSecret(`sessions.${provider}`);
+}
+
+export function setSessionToken(provider: string, token: string): SecretBackend {
+  migratePlaintextSecrets();
+  return setSecret(`sessions.${provider}`, token);
+}
+
+export function removeSessionToken(provider: string): void {
+  removeSecret(`sessions.${provider}`);
+}
+
+export function getSessionTokenLocation(provider: string): SecretBackend | 'plaintext' | undefined {
+  return getSecretLocation(`sessions.${provider}`);
 }
 
 export function getPreferredBrowser(): string {
@@ -42,6 +248,115 @@ export function setPreferredBrowser(browser: string): void {
   config.set('browser', browser);
 }
 
+/** Chromium profile to read cookies from (display name or directory), or undefined for all. */
+export function getPreferredBrowserProfile(): string | undefined {
+  return (config.get('browserProfile') as string) || undefined;
+}
+
+export function setPreferredBrowserProfile(profile: string | undefined): void {
+  if (profile) config.set('browserProfile', profile);
+  else config.delete('browserProfile');
+}
+
+/** Firefox profile to read cookies from (profiles.ini name or directory), or undefined for all. */
+export function getPreferredFirefoxProfile(): string | undefined {
+  return (config.get('firefoxProfile') as string) || undefined;
+}
+
+export function setPreferredFirefoxProfile(profile: string | undefined): void {
+  if (profile) config.set('firefoxProfile', profile);
+  else config.delete('firefoxProfile');
+}
+
+/** Firefox container preference: container name/id, 'none' or 'any'; undefined = default ordering. */
+export function getPreferredFirefoxContainer(): string | undefined {
+  return (config.get('firefoxContainer') as string) || undefined;
+}
+
+export function setPreferredFirefoxContainer(container: string | undefined): void {
+  if (container) config.set('firefoxContainer', container);
+  else config.delete('firefoxContainer');
+}
+
+/** Proxy URL from `config set proxy`; HTTPS_PROXY / HTTP_PROXY take precedence. */
+export function getProxy(): string | undefined {
+  return (config.get('proxy') as string) || undefined;
+}
+
+export function setProxy(url: string | undefined): void {
+  if (url) config.set('proxy', url);
+  else config.delete('proxy');
+}
+
+/** PEM bundle trusted in addition to the built-in CAs (like NODE_EXTRA_CA_CERTS). */
+export function getCaFile(): string | undefined {
+  return (config.get('caFile') as string) || undefined;
+}
+
+export function setCaFile(file: string | undefined): void {
+  if (file) config.set('caFile', file);
+  else config.delete('caFile');
+}
+
 export function getAllApiKeys(): Record<string, string> {
-  return (config.get('apiKeys') as Record<string, string>) || {};
+  migratePlaintextSecrets();
+  const providers = new Set([
+    ...Object.keys((config.get('apiKeys') as Record<string, string>) || {}),
+    ...Object.keys(getSecretBackends()).filter((name) => name.startsWith('apiKeys.')).map((name) => name.slice('apiKeys.'.length)),
+  ]);
+  const keys: Record<string, string> = {};
+  for (const provider of providers) {
+    const key = getApiKey(provider);
+    if (key) keys[provider] = key;
+  }
+  return keys;
+}
+
+export function getAlertRules(): string[] {
+  return (config.get('alerts.rules') as string[]) || [];
+}
+
+export function setAlertRules(rules: string[]): void {
+  config.set('alerts.rules', rules);
+}
+
+export function getAlertSinks(): AlertSink[] {
+  return (config.get('alerts.sinks') as AlertSink[]) || [];
+}
+
+export function setAlertSinks(sinks: AlertSink[]): void {
+  config.set('alerts.sinks', sinks);
+}
+
+/** Per-rule de-duplication state: rule text -> reset window key it last fired in. */
+export function getAlertState(): Record<string, string> {
+  return { ...((config.get('alerts.state') as Record<string, string>) || {}) };
+}
+
+export function setAlertState(state: Record<string, string>): void {
+  config.set('alerts.state', state);
+}
+
+/** Named accounts, optionally only those of one provider, in the order they were added. */
+export function getAccounts(provider?: string): ProviderAccount[] {
+  const accounts = (config.get('accounts') as ProviderAccount[]) || [];
+  return provider ? accounts.filter((a) => a.provider === provider) : accounts;
+}
+
+export function setAccounts(accounts: ProviderAccount[]): void {
+  config.set('accounts', accounts);
+}
+
+/** Cache max age in ms for a provider, falling back to the default set with `config set max-age`. */
+export function getCacheMaxAge(provider: string): number | undefined {
+  const maxAge = (config.get('cache.maxAge') as Record<string, number>) || {};
+  return maxAge[provider] ?? maxAge.default;
+}
+
+/** Set (or with undefined, clear) the cache max age for a provider, or 'default' for all. */
+export function setCacheMaxAge(provider: string, ms: number | undefined): void {
+  const maxAge = { ...((config.get('cache.maxAge') as Record<string, number>) || {}) };
+  if (ms === undefined) delete maxAge[provider];
+  else maxAge[provider] = ms;
+  config.set('cache.maxAge', maxAge);
 }
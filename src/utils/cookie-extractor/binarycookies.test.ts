@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseBinaryCookies, readSafariCookiesFromFile } from './binarycookies';
+
+/** One page, two cookies: a secure HttpOnly session token expiring 2030-01-01 and a plain session cookie. */
+const FIXTURE = path.join(__dirname, 'fixtures', 'Cookies.binarycookies');
+
+test('parses every field of the fixture cookies', () => {
+  const cookies = parseBinaryCookies(fs.readFileSync(FIXTURE));
+  assert.deepEqual(cookies, [
+    {
+      domain: '.cursor.com',
+      name: 'WorkosCursorSessionToken',
+      path: '/',
+      value: 'user_01%3A%3Atoken',
+      secure: true,
+      httpOnly: true,
+      expires: new Date('2030-01-01T00:00:00Z'),
+      created: new Date('2026-01-01T00:00:00Z'),
+    },
+    {
+      domain: 'www.example.com',
+      name: 'theme',
+      path: '/settings',
+      value: 'dark',
+      secure: false,
+      httpOnly: false,
+      expires: undefined,
+      created: new Date('2026-01-01T00:00:00Z'),
+    },
+  ]);
+});
+
+test('rejects files without the cook magic', () => {
+  assert.throws(() => parseBinaryCookies(Buffer.from('SQLite format 3\0')), /bad magic/);
+});
+
+test('rejects a truncated page table', () => {
+  const truncated = fs.readFileSync(FIXTURE).subarray(0, 10);
+  assert.throws(() => parseBinaryCookies(truncated), /Truncated/);
+});
+
+test('reads matching cookies from a file', () => {
+  const result = readSafariCookiesFromFile(FIXTURE, (host) => host.endsWith('cursor.com'));
+  assert.deepEqual(result, { cookies: [{ name: 'WorkosCursorSessionToken', value: 'user_01%3A%3Atoken' }] });
+});
+
+test('reports an unreadable file instead of throwing', () => {
+  const missing = path.join(os.tmpdir(), 'tlens-no-such-dir', 'Cookies.binarycookies');
+  const result = readSafariCookiesFromFile(missing, () => true);
+  assert.deepEqual(result.cookies, []);
+  assert.match(result.error ?? '', /ENOENT/);
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+
+/** Seconds between the Unix epoch and the Mac (Core Foundation) epoch, 2001-01-01. */
+const MAC_EPOCH_OFFSET = 978307200;
+
+const FLAG_SECURE = 0x1;
+const FLAG_HTTP_ONLY = 0x4;
+
+/** Cookie record from Safari's Cookies.binarycookies */
+export interface BinaryCookie {
+  domain: string;
+  name: string;
+  path: string;
+  value: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** Undefined for session cookies (expiry 0). */
+  expires?: Date;
+  created?: Date;
+}
+
+function readCString(buf: Buffer, start: number, end: number): string {
+  if (start <= 0 || start >= end) return '';
+  let stop = buf.indexOf(0, start);
+  if (stop === -1 || stop > end) stop = end;
+  return buf.toString('utf8', start, stop);
+}
+
+function macTimeToDate(seconds: number): Date | undefined {
+  if (!seconds || !Number.isFinite(seconds)) return undefined;
+  return new Date((seconds + MAC_EPOCH_OFFSET) * 1000);
+}
+
+function parseCookieRecord(buf: Buffer, start: number, pageEnd: number): BinaryCookie | null {
+  if (start + 56 > pageEnd) return null;
+  const size = buf.readUInt32LE(start);
+  const end = Math.min(start + size, pageEnd);
+  if (size < 56 || end <= start) return null;
+  const flags = buf.readUInt32LE(start + 8);
+  const domainOffset = buf.readUInt32LE(start + 16);
+  const nameOffset = buf.readUInt32LE(start + 20);
+  const pathOffset = buf.readUInt32LE(start + 24);
+  const valueOffset = buf.readUInt32LE(start + 28);
+  const expiry = buf.readDoubleLE(start + 40);
+  const creation = buf.readDoubleLE(start + 48);
+  return {
+    domain: readCString(buf, start + domainOffset, end),
+    name: readCString(buf, start + nameOffset, end),
+    path: readCString(buf, start + pathOffset, end),
+    value: readCString(buf, start + valueOffset, end),
+    secure: (flags & FLAG_SECURE) !== 0,
+    httpOnly: (flags & FLAG_HTTP_ONLY) !== 0,
+    expires: macTimeToDate(expiry),
+    created: macTimeToDate(creation),
+  };
+}
+
+/**
+ * Parse a Safari Cookies.binarycookies file.
+ *
+ * Layout: "cook" magic, big-endian page count and page sizes, then pages.
+ * Each page starts with 0x00000100, a little-endian cookie count and
+ * cookie offsets; each cookie record holds little-endian flags, string
+ * offsets and Mac-epoch (2001-01-01) float64 expiry/creation times.
+ */
+export function parseBinaryCookies(buf: Buffer): BinaryCookie[] {
+  if (buf.length < 8 || buf.toString('ascii', 0, 4) !== 'cook') {
+    throw new Error('Not a binarycookies file (bad magic)');
+  }
+  const numPages = buf.readUInt32BE(4);
+  const pageSizes: number[] = [];
+  let offset = 8;
+  for (let i = 0; i < numPages; i++) {
+    if (offset + 4 > buf.length) throw new Error('Truncated binarycookies header');
+    pageSizes.push(buf.readUInt32BE(offset));
+    offset += 4;
+  }
+
+  const cookies: BinaryCookie[] = [];
+  for (const pageSize of pageSizes) {
+    const pageStart = offset;
+    const pageEnd = pageStart + pageSize;
+    offset = pageEnd;
+    if (pageEnd > buf.length || pageSize < 8) break;
+    if (buf.readUInt32BE(pageStart) !== 0x00000100) continue;
+    const count = buf.readUInt32LE(pageStart + 4);
+    for (let i = 0; i < count; i++) {
+      const ptr = pageStart + 8 + i * 4;
+      if (ptr + 4 > pageEnd) break;
+      const cookie = parseCookieRecord(buf, pageStart + buf.readUInt32LE(ptr), pageEnd);
+      if (cookie) cookies.push(cookie);
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Read Safari cookies from a Cookies.binarycookies file, skipping expired ones.
+ */
+export function readSafariCookiesFromFile(
+  filePath: string,
+  domainFilter: (host: string) => boolean
+): { cookies: Array<{ name: string; value: string }>; error?: string } {
+  let buf: Buffer;
+  try {
+    buf = fs.readFileSync(filePath);
+  } catch (e) {
+    const err = e as NodeJS.ErrnoException;
+    if (err.code === 'EPERM' || err.code === 'EACCES') {
+      return { cookies: [], error: 'Permission denied (grant your terminal Full Disk Access to read Safari cookies)' };
+    }
+    return { cookies: [], error: err.message };
+  }
+  try {
+    const now = Date.now();
+    const cookies = parseBinaryCookies(buf)
+      .filter((c) => domainFilter(c.domain))
+      .filter((c) => !c.expires || c.expires.getTime() > now)
+      .map((c) => ({ name: c.name, value: c.value }));
+    return { cookies };
+  } catch (e) {
+    return { cookies: [], error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -118,18 +118,22 @@ function getWindowsKeys(config: BrowserConfig, warnings: string[]): DecryptKeyRe
 function getLinuxKeys(config: BrowserConfig, warnings: string[]): DecryptKeyResult {
   const service = config.osCryptName || 'Chrome Safe Storage';
   const keys: Buffer[] = [];
-  // Try keyring (v11)
-  try {
-    const out = execSync(
-      `secret-tool lookup application "${service}" 2>/dev/null || true`,
-      { encoding: 'utf8', timeout: 3000, stdio: ['pipe', 'pipe', 'pipe'] }
-    );
-    const password = (out || '').trim();
-    if (password) {
-      keys.push(deriveKey(password, 1));
+  // Try keyring (v11): by application attribute (e.g. 'brave'), then by Safe Storage name
+  const lookups = [config.osCryptApplication, service].filter((v): v is string => !!v);
+  for (const application of lookups) {
+    try {
+      const out = execSync(
+        `secret-tool lookup application "${application}" 2>/dev/null || true`,
+        { encoding: 'utf8', timeout: 3000, stdio: ['pipe', 'pipe', 'pipe'] }
+      );
+      const password = (out || '').trim();
+      if (password) {
+        keys.push(deriveKey(password, 1));
+        break;
+      }
+    } catch {
+      // ignore
     }
-  } catch {
-    // ignore
   }
   // v10 fallbacks
   keys.push(deriveKey('peanuts', 1));
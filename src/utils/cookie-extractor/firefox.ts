@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface FirefoxProfile {
+    /** Profile name from profiles.ini (or the directory name when there is no profiles.ini) */
+    name: string;
+    dir: string;
+    isDefault: boolean;
+}
+
+export interface FirefoxContainer {
+    userContextId: number;
+    name: string;
+}
+
+/** Built-in container names, which containers.json stores only as l10n ids. */
+const DEFAULT_CONTAINER_NAMES: Record<string, string> = {
+    'user-context-personal': 'Personal',
+    'user-context-work': 'Work',
+    'user-context-banking': 'Banking',
+    'user-context-shopping': 'Shopping',
+};
+
+function parseIni(content: string): Array<{ section: string; values: Record<string, string> }> {
+    const sections: Array<{ section: string; values: Record<string, string> }> = [];
+    let current: { section: string; values: Record<string, string> } | null = null;
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            current = { section: header[1], values: {} };
+            sections.push(current);
+            continue;
+        }
+        const eq = line.indexOf('=');
+        if (current && eq > 0) {
+            current.values[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+        }
+    }
+    return sections;
+}
+
+/**
+ * Resolve profiles from <root>/profiles.ini. The default is the one named by
+ * an [Install...] section (current Firefox), else the legacy Default=1 marker.
+ * Falls back to scanning for cookies.sqlite when profiles.ini is missing.
+ */
+export function getFirefoxProfiles(root: string): FirefoxProfile[] {
+    const iniPath = path.join(root, 'profiles.ini');
+    if (!fs.existsSync(iniPath)) return scanProfiles(root);
+
+    let sections: ReturnType<typeof parseIni>;
+    try {
+        sections = parseIni(fs.readFileSync(iniPath, 'utf8'));
+    } catch {
+        return scanProfiles(root);
+    }
+
+    const resolve = (p: string, relative: boolean) => (relative ? path.join(root, p) : p);
+    const installDefaults = new Set(
+        sections
+            .filter((s) => s.section.startsWith('Install') && s.values.Default)
+            .map((s) => path.normalize(resolve(s.values.Default, true)))
+    );
+
+    const profiles: FirefoxProfile[] = [];
+    for (const { section, values } of sections) {
+        if (!section.startsWith('Profile') || !values.Path) continue;
+        const dir = path.normalize(resolve(values.Path, values.IsRelative !== '0'));
+        profiles.push({
+            name: values.Name || path.basename(dir),
+            dir,
+            isDefault: installDefaults.size > 0 ? installDefaults.has(dir) : values.Default === '1',
+        });
+    }
+    // Default profile first so it wins when cookies are merged.
+    return profiles.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+function scanProfiles(root: string): FirefoxProfile[] {
+    const profiles: FirefoxProfile[] = [];
+    for (const base of [path.join(root, 'Profiles'), root]) {
+        if (!fs.existsSync(base)) continue;
+        for (const entry of fs.readdirSync(base)) {
+            const dir = path.join(base, entry);
+            if (fs.existsSync(path.join(dir, 'cookies.sqlite'))) {
+                profiles.push({ name: entry, dir, isDefault: false });
+            }
+        }
+    }
+    return profiles;
+}
+
+/** Read Multi-Account Container names from a profile's containers.json. */
+export function getFirefoxContainers(profileDir: string): FirefoxContainer[] {
+    try {
+        const raw = fs.readFileSync(path.join(profileDir, 'containers.json'), 'utf8');
+        const parsed = JSON.parse(raw) as {
+            identities?: Array<{ userContextId?: number; name?: string; l10nID?: string; public?: boolean }>;
+        };
+        return (parsed.identities ?? [])
+            .filter((i) => i.public !== false && typeof i.userContextId === 'number')
+            .map((i) => ({
+                userContextId: i.userContextId as number,
+                name: i.name || (i.l10nID ? DEFAULT_CONTAINER_NAMES[i.l10nID] : undefined) || `Container ${i.userContextId}`,
+            }));
+    } catch {
+        return [];
+    }
+}
+
+/** userContextId from a moz_cookies originAttributes string ('^userContextId=2'); 0 = no container. */
+export function parseUserContextId(originAttributes: string): number {
+    const match = originAttributes.match(/userContextId=(\d+)/);
+    return match ? Number(match[1]) : 0;
+}
@@ -1,6 +1,10 @@
-import { getBrowserPaths, type BrowserConfig, type BrowserName } from './paths';
-import { getChromiumDecryptKeys, decryptChromiumCookie } from './crypto';
-import { readChromiumCookiesFromDb, readFirefoxCookiesFromDb } from './sqlite';
+import path from 'path';
+import { getBrowserPaths, isFirefoxFamily, matchesProfile, type BrowserConfig, type BrowserName } from './paths';
+import { getChromiumDecryptKeys, decryptChromiumCookie, type DecryptKeyResult } from './crypto';
+import { readChromiumCookiesFromDb, readFirefoxCookiesFromDb, type FirefoxCookie } from './sqlite';
+import { getFirefoxContainers, parseUserContextId } from './firefox';
+import { readSafariCookiesFromFile } from './binarycookies';
+import { readNetscapeCookieFile } from './netscape';
 
 export interface Cookie {
   name: string;
@@ -11,7 +15,15 @@ export interface GetCookiesOptions {
   url: string;
   names: string[];
   browsers?: BrowserName[];
+  /** Only read this Chromium profile (display name from Local State, or directory like 'Profile 1'). */
   chromeProfile?: string;
+  /** Only read this Firefox(-fork) profile (profiles.ini name, or directory name). */
+  firefoxProfile?: string;
+  /**
+   * Firefox Multi-Account Container to read: a container name or userContextId,
+   * 'none' for cookies outside any container, or 'any'. Default: outside first, then containers.
+   */
+  firefoxContainer?: string;
   timeoutMs?: number;
 }
 
@@ -20,6 +32,26 @@ export interface GetCookiesResult {
   warnings: string[];
 }
 
+/**
+ * Order/filter Firefox cookies by container preference so "first wins" picks
+ * the intended session. Returns null if the named container doesn't exist.
+ */
+function selectFirefoxCookies(cookies: FirefoxCookie[], profileDir: string, preference?: string): FirefoxCookie[] | null {
+  const withId = cookies.map((c) => ({ cookie: c, id: parseUserContextId(c.originAttributes) }));
+  const pref = preference?.trim().toLowerCase();
+  if (!pref) {
+    return withId.sort((a, b) => a.id - b.id).map((c) => c.cookie);
+  }
+  if (pref === 'any') return cookies;
+  if (pref === 'none') return withId.filter((c) => c.id === 0).map((c) => c.cookie);
+  let id = /^\d+$/.test(pref) ? Number(pref) : undefined;
+  if (id === undefined) {
+    id = getFirefoxContainers(profileDir).find((c) => c.name.toLowerCase() === pref)?.userContextId;
+  }
+  if (id === undefined) return null;
+  return withId.filter((c) => c.id === id).map((c) => c.cookie);
+}
+
 function hostMatches(hostKey: string, hostname: string): boolean {
   const domain = hostKey.startsWith('.') ? hostKey.slice(1) : hostKey;
   if (hostname === domain) return true;
@@ -29,7 +61,7 @@ function hostMatches(hostKey: string, hostname: string): boolean {
 }
 
 /**
- * Get cookies for the given URL from local browsers (Chrome, Arc, Edge, Firefox).
+ * Get cookies for the given URL from local browsers (Chromium family, Firefox, Safari).
  */
 export async function getCookies(options: GetCookiesOptions): Promise<GetCookiesResult> {
   const { url, names } = options;
@@ -51,11 +83,48 @@ export async function getCookies(options: GetCookiesOptions): Promise<GetCookies
     const set = new Set(options.browsers);
     configs = configs.filter((c) => set.has(c.name));
   }
+  if (options.chromeProfile) {
+    const profile = options.chromeProfile;
+    const chromium = configs.filter((c) => c.profile && !isFirefoxFamily(c.name));
+    if (chromium.length > 0 && !chromium.some((c) => matchesProfile(c, profile))) {
+      const available = chromium.map((c) => `${c.name}: ${c.profileName}`).join(', ');
+      warnings.push(`No Chromium profile named "${profile}" (found ${available})`);
+    }
+    configs = configs.filter((c) => !c.profile || isFirefoxFamily(c.name) || matchesProfile(c, profile));
+  }
+  if (options.firefoxProfile) {
+    const profile = options.firefoxProfile;
+    const firefox = configs.filter((c) => isFirefoxFamily(c.name));
+    if (firefox.length > 0 && !firefox.some((c) => matchesProfile(c, profile))) {
+      const available = firefox.map((c) => `${c.name}: ${c.profileName}`).join(', ');
+      warnings.push(`No Firefox profile named "${profile}" (found ${available})`);
+    }
+    configs = configs.filter((c) => !isFirefoxFamily(c.name) || matchesProfile(c, profile));
+  }
   const isWindows = process.platform === 'win32';
+  // One Keychain/keyring lookup per browser install, not per profile.
+  const keyCache = new Map<string, DecryptKeyResult>();
 
   for (const config of configs) {
-    if (config.name === 'firefox') {
-      const result = readFirefoxCookiesFromDb(config.cookiesPath, domainFilter);
+    if (isFirefoxFamily(config.name)) {
+      const label = config.profileName ? `${config.name} (${config.profileName})` : config.name;
+      const result = await readFirefoxCookiesFromDb(config.cookiesPath, domainFilter);
+      if (result.error) warnings.push(`${label}: ${result.error}`);
+      const selected = selectFirefoxCookies(result.cookies, path.dirname(config.cookiesPath), options.firefoxContainer);
+      if (!selected) {
+        warnings.push(`${label}: no container named "${options.firefoxContainer}"`);
+        continue;
+      }
+      for (const c of selected) {
+        if (!allowlist || allowlist.has(c.name.toLowerCase())) {
+          if (!cookieMap.has(c.name)) cookieMap.set(c.name, c.value);
+        }
+      }
+      continue;
+    }
+
+    if (config.name === 'safari') {
+      const result = readSafariCookiesFromFile(config.cookiesPath, domainFilter);
       if (result.error) warnings.push(`${config.name}: ${result.error}`);
       for (const c of result.cookies) {
         if (!allowlist || allowlist.has(c.name.toLowerCase())) {
@@ -66,18 +135,25 @@ export async function getCookies(options: GetCookiesOptions): Promise<GetCookies
     }
 
     // Chromium-based
-    const keyResult = await getChromiumDecryptKeys(config);
-    if (!keyResult.ok) {
-      warnings.push(`${config.name}: ${keyResult.error}`);
-      if (keyResult.warnings?.length) warnings.push(...keyResult.warnings);
-      continue;
+    const label = config.profileName ? `${config.name} (${config.profileName})` : config.name;
+    const keyCacheKey = `${config.name}:${config.userDataDir ?? ''}`;
+    let keyResult = keyCache.get(keyCacheKey);
+    if (!keyResult) {
+      keyResult = await getChromiumDecryptKeys(config);
+      keyCache.set(keyCacheKey, keyResult);
+      if (!keyResult.ok) {
+        warnings.push(`${config.name}: ${keyResult.error}`);
+        if (keyResult.warnings?.length) warnings.push(...keyResult.warnings);
+      }
     }
+    if (!keyResult.ok) continue;
+    const keys = keyResult.keys;
 
     const decrypt = (valuePlain: string, enc: Buffer) =>
-      decryptChromiumCookie(valuePlain, enc, keyResult.keys, isWindows);
+      decryptChromiumCookie(valuePlain, enc, keys, isWindows);
 
-    const result = readChromiumCookiesFromDb(config.cookiesPath, domainFilter, decrypt);
-    if (result.error) warnings.push(`${config.name}: ${result.error}`);
+    const result = await readChromiumCookiesFromDb(config.cookiesPath, domainFilter, decrypt);
+    if (result.error) warnings.push(`${label}: ${result.error}`);
     for (const c of result.cookies) {
       if (!allowlist || allowlist.has(c.name.toLowerCase())) {
         if (!cookieMap.has(c.name)) cookieMap.set(c.name, c.value);
@@ -89,6 +165,83 @@ export async function getCookies(options: GetCookiesOptions): Promise<GetCookies
   return { cookies, warnings };
 }
 
+/** What one browser profile holds for a URL; used by `tlens doctor`. */
+export interface BrowserCookieDiagnosis {
+  config: BrowserConfig;
+  label: string;
+  /** Chromium only: the decryption key lookup, shared by all profiles of a browser. */
+  key?: DecryptKeyResult;
+  /** Error reading the cookie store. */
+  error?: string;
+  /** Names of matching, non-empty cookies (values are never returned). */
+  matched: string[];
+}
+
+/**
+ * Check every browser profile for the given cookies, reporting each stage
+ * (decryption key, cookie store, matches) instead of stopping at the first hit.
+ */
+export async function diagnoseCookies(options: { url: string; names: string[] }): Promise<BrowserCookieDiagnosis[]> {
+  const hostname = new URL(options.url).hostname;
+  const allowlist = new Set(options.names.map((n) => n.toLowerCase()));
+  const domainFilter = (hostKey: string) => hostMatches(hostKey, hostname);
+  const matchedNames = (cookies: Cookie[]) =>
+    Array.from(new Set(cookies.filter((c) => c.value && allowlist.has(c.name.toLowerCase())).map((c) => c.name)));
+  const keyCache = new Map<string, DecryptKeyResult>();
+  const out: BrowserCookieDiagnosis[] = [];
+
+  for (const config of getBrowserPaths()) {
+    const label = config.profileName ? `${config.name} (${config.profileName})` : config.name;
+    if (isFirefoxFamily(config.name)) {
+      const result = await readFirefoxCookiesFromDb(config.cookiesPath, domainFilter);
+      out.push({ config, label, error: result.error, matched: matchedNames(result.cookies) });
+      continue;
+    }
+    if (config.name === 'safari') {
+      const result = readSafariCookiesFromFile(config.cookiesPath, domainFilter);
+      out.push({ config, label, error: result.error, matched: matchedNames(result.cookies) });
+      continue;
+    }
+    const keyCacheKey = `${config.name}:${config.userDataDir ?? ''}`;
+    let key = keyCache.get(keyCacheKey);
+    if (!key) {
+      key = await getChromiumDecryptKeys(config);
+      keyCache.set(keyCacheKey, key);
+    }
+    if (!key.ok) {
+      out.push({ config, label, key, matched: [] });
+      continue;
+    }
+    const keys = key.keys;
+    const decrypt = (valuePlain: string, enc: Buffer) => decryptChromiumCookie(valuePlain, enc, keys, process.platform === 'win32');
+    const result = await readChromiumCookiesFromDb(config.cookiesPath, domainFilter, decrypt);
+    out.push({ config, label, key, error: result.error, matched: matchedNames(result.cookies) });
+  }
+  return out;
+}
+
+/**
+ * Get cookies for the given URL from a Netscape-format cookies.txt file.
+ */
+export function getCookiesFromFile(options: { url: string; names: string[]; filePath: string }): GetCookiesResult {
+  let hostname: string;
+  try {
+    hostname = new URL(options.url).hostname;
+  } catch {
+    return { cookies: [], warnings: ['Invalid URL'] };
+  }
+  const allowlist = options.names.length > 0 ? new Set(options.names.map((n) => n.toLowerCase())) : null;
+  const result = readNetscapeCookieFile(options.filePath, (hostKey) => hostMatches(hostKey, hostname));
+  const cookieMap = new Map<string, string>();
+  for (const c of result.cookies) {
+    if (!allowlist || allowlist.has(c.name.toLowerCase())) {
+      if (!cookieMap.has(c.name)) cookieMap.set(c.name, c.value);
+    }
+  }
+  const cookies = Array.from(cookieMap.entries()).map(([name, value]) => ({ name, value }));
+  return { cookies, warnings: result.error ? [`${options.filePath}: ${result.error}`] : [] };
+}
+
 /**
  * Build a Cookie header value from a list of cookies (dedupe by name).
  */
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readNetscapeCookieFile } from './netscape';
+
+function writeCookieFile(lines: string[]): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tlens-netscape-'));
+  const file = path.join(dir, 'cookies.txt');
+  fs.writeFileSync(file, lines.join('\n'));
+  return file;
+}
+
+const future = Math.floor(Date.now() / 1000) + 3600;
+
+test('reads matching cookies, including #HttpOnly_ lines and session cookies', () => {
+  const file = writeCookieFile([
+    '# Netscape HTTP Cookie File',
+    '',
+    `#HttpOnly_.cursor.com\tTRUE\t/\tTRUE\t${future}\tWorkosCursorSessionToken\tabc`,
+    `cursor.com\tFALSE\t/\tFALSE\t0\ttheme\tdark`,
+    `example.com\tFALSE\t/\tFALSE\t${future}\tother\tx`,
+  ]);
+  const result = readNetscapeCookieFile(file, (host) => host.replace(/^\./, '') === 'cursor.com');
+  assert.deepEqual(result, { cookies: [{ name: 'WorkosCursorSessionToken', value: 'abc' }, { name: 'theme', value: 'dark' }] });
+});
+
+test('skips expired cookies and short lines, keeps tabs inside values', () => {
+  const file = writeCookieFile([
+    `cursor.com\tFALSE\t/\tFALSE\t1000\texpired\tx`,
+    'cursor.com\tFALSE\t/',
+    `cursor.com\tFALSE\t/\tFALSE\t${future}\ttabbed\ta\tb`,
+  ]);
+  assert.deepEqual(readNetscapeCookieFile(file, () => true).cookies, [{ name: 'tabbed', value: 'a\tb' }]);
+});
+
+test('handles CRLF line endings', () => {
+  const file = writeCookieFile([`cursor.com\tFALSE\t/\tFALSE\t0\ta\t1\r`, `cursor.com\tFALSE\t/\tFALSE\t0\tb\t2`]);
+  assert.deepEqual(readNetscapeCookieFile(file, () => true).cookies, [{ name: 'a', value: '1' }, { name: 'b', value: '2' }]);
+});
+
+test('reports a missing file', () => {
+  const result = readNetscapeCookieFile(path.join(os.tmpdir(), 'tlens-no-such-dir', 'cookies.txt'), () => true);
+  assert.deepEqual(result.cookies, []);
+  assert.match(result.error ?? '', /ENOENT/);
+});
@@ -0,0 +1,38 @@
+import fs from 'fs';
+
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * Read cookies from a Netscape/Mozilla cookies.txt file (as written by curl,
+ * wget and "Get cookies.txt" extensions). Tab-separated columns:
+ * domain, includeSubdomains, path, secure, expiry (unix seconds), name, value.
+ */
+export function readNetscapeCookieFile(
+  filePath: string,
+  domainFilter: (host: string) => boolean
+): { cookies: Array<{ name: string; value: string }>; error?: string } {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    return { cookies: [], error: e instanceof Error ? e.message : String(e) };
+  }
+  const cookies: Array<{ name: string; value: string }> = [];
+  const nowSec = Math.floor(Date.now() / 1000);
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+    } else if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain, , , , expiry, name, ...valueParts] = fields;
+    if (!domainFilter(domain)) continue;
+    const exp = Number(expiry);
+    if (exp > 0 && exp < nowSec) continue;
+    cookies.push({ name, value: valueParts.join('\t') });
+  }
+  return { cookies };
+}
@@ -1,129 +1,231 @@
 import os from 'os';
 import path from 'path';
 import fs from 'fs';
+import { getFirefoxProfiles } from './firefox';
 
-export type BrowserName = 'chrome' | 'edge' | 'firefox' | 'safari' | 'arc';
+export type BrowserName =
+    | 'chrome' | 'edge' | 'arc' | 'brave' | 'chromium' | 'vivaldi' | 'opera'
+    | 'firefox' | 'librewolf' | 'zen' | 'floorp'
+    | 'safari';
+
+/** Firefox and its forks share the cookies.sqlite format and profiles.ini layout. */
+const FIREFOX_FAMILY = new Set<BrowserName>(['firefox', 'librewolf', 'zen', 'floorp']);
+
+export function isFirefoxFamily(name: BrowserName): boolean {
+    return FIREFOX_FAMILY.has(name);
+}
+
+/** Values accepted by `config set browser` (and offered by `config setup`). */
+export const BROWSER_CHOICES: Array<{ value: BrowserName; name: string }> = [
+    { value: 'chrome', name: 'Google Chrome' },
+    { value: 'arc', name: 'Arc Browser' },
+    { value: 'safari', name: 'Safari' },
+    { value: 'firefox', name: 'Firefox' },
+    { value: 'edge', name: 'Microsoft Edge' },
+    { value: 'brave', name: 'Brave' },
+    { value: 'chromium', name: 'Chromium' },
+    { value: 'vivaldi', name: 'Vivaldi' },
+    { value: 'opera', name: 'Opera' },
+    { value: 'librewolf', name: 'LibreWolf' },
+    { value: 'zen', name: 'Zen Browser' },
+    { value: 'floorp', name: 'Floorp' },
+];
 
 export interface BrowserConfig {
     name: BrowserName;
     cookiesPath: string;
-    /** For Windows Chromium: directory containing Local State (for DPAPI key) */
+    /** Chromium: user-data dir containing Local State (DPAPI key on Windows, profile names) */
     userDataDir?: string;
+    /** Profile directory name, e.g. 'Default', 'Profile 1' or 'abcd.default-release' */
+    profile?: string;
+    /** Profile display name (Chromium Local State, Firefox profiles.ini), e.g. 'Work' */
+    profileName?: string;
     osCryptName?: string; // e.g. 'Chrome Safe Storage'
     osCryptAccount?: string; // e.g. 'Chrome'
+    /** Linux: Secret Service `application` attribute, e.g. 'chrome', 'brave' */
+    osCryptApplication?: string;
 }
 
-export function getBrowserPaths(): BrowserConfig[] {
-    const home = os.homedir();
-    const platform = process.platform;
-    const browsers: BrowserConfig[] = [];
+interface ChromiumBrowser {
+    name: BrowserName;
+    userDataDir: string;
+    osCryptName: string;
+    osCryptAccount?: string;
+    osCryptApplication?: string;
+    /** The user-data dir is itself the only profile (Opera). */
+    singleProfile?: boolean;
+}
 
-    if (platform === 'darwin') { // macOS
-        // Chrome
-        const chromePath = path.join(home, 'Library/Application Support/Google/Chrome/Default/Cookies');
-        if (fs.existsSync(chromePath)) {
-            browsers.push({
-                name: 'chrome',
-                cookiesPath: chromePath,
-                osCryptName: 'Chrome Safe Storage',
-                osCryptAccount: 'Chrome'
-            });
-        }
+/** Profile directories that never hold a user's browsing session. */
+const IGNORED_PROFILES = new Set(['System Profile', 'Guest Profile']);
 
-        // Arc
-        const arcPath = path.join(home, 'Library/Application Support/Arc/User Data/Default/Cookies');
-        if (fs.existsSync(arcPath)) {
-            browsers.push({
-                name: 'arc',
-                cookiesPath: arcPath,
-                osCryptName: 'Arc Safe Storage',
-                osCryptAccount: 'Arc'
-            });
+/** Read profile display names from Local State (profile.info_cache). */
+function readProfileNames(userDataDir: string): Record<string, string> {
+    try {
+        const raw = fs.readFileSync(path.join(userDataDir, 'Local State'), 'utf8');
+        const parsed = JSON.parse(raw) as { profile?: { info_cache?: Record<string, { name?: string }> } };
+        const names: Record<string, string> = {};
+        for (const [dir, info] of Object.entries(parsed.profile?.info_cache ?? {})) {
+            if (info?.name) names[dir] = info.name;
         }
+        return names;
+    } catch {
+        return {};
+    }
+}
 
-        // Edge
-        const edgePath = path.join(home, 'Library/Application Support/Microsoft Edge/Default/Cookies');
-        if (fs.existsSync(edgePath)) {
-            browsers.push({
-                name: 'edge',
-                cookiesPath: edgePath,
-                osCryptName: 'Microsoft Edge Safe Storage',
-                osCryptAccount: 'Microsoft Edge'
-            });
-        }
+/** Cookies DB for a profile: newer Chromium keeps it under Network/. */
+function findProfileCookies(profileDir: string): string | null {
+    const candidates = [path.join(profileDir, 'Network', 'Cookies'), path.join(profileDir, 'Cookies')];
+    return candidates.find((p) => fs.existsSync(p)) ?? null;
+}
 
-        // Firefox
-        const firefoxDir = path.join(home, 'Library/Application Support/Firefox/Profiles');
-        if (fs.existsSync(firefoxDir)) {
-            const profiles = fs.readdirSync(firefoxDir);
-            for (const profile of profiles) {
-                const cookiesPath = path.join(firefoxDir, profile, 'cookies.sqlite');
-                if (fs.existsSync(cookiesPath)) {
-                    browsers.push({ name: 'firefox', cookiesPath });
-                }
-            }
-        }
+/**
+ * Enumerate every profile in a Chromium user-data dir that has a cookies DB.
+ * 'Default' comes first, then the rest in directory order.
+ */
+export function getChromiumProfiles(browser: ChromiumBrowser): BrowserConfig[] {
+    if (!fs.existsSync(browser.userDataDir)) return [];
+    const base = {
+        name: browser.name,
+        userDataDir: browser.userDataDir,
+        osCryptName: browser.osCryptName,
+        osCryptAccount: browser.osCryptAccount,
+        osCryptApplication: browser.osCryptApplication,
+    };
+    if (browser.singleProfile) {
+        const cookiesPath = findProfileCookies(browser.userDataDir);
+        return cookiesPath ? [{ ...base, cookiesPath, profile: 'Default', profileName: 'Default' }] : [];
+    }
+    const names = readProfileNames(browser.userDataDir);
+    let dirs: string[];
+    try {
+        dirs = fs.readdirSync(browser.userDataDir, { withFileTypes: true })
+            .filter((d) => d.isDirectory() && !IGNORED_PROFILES.has(d.name))
+            .map((d) => d.name);
+    } catch {
+        return [];
+    }
+    dirs.sort((a, b) => (a === 'Default' ? -1 : b === 'Default' ? 1 : a.localeCompare(b, undefined, { numeric: true })));
 
-        // Safari (Unsupported directly via SQLite usually, requires binarycookies parser)
-        // We will skip safari or return a specific path to binarycookies
-    } else if (platform === 'win32') { // Windows
+    const configs: BrowserConfig[] = [];
+    for (const dir of dirs) {
+        const cookiesPath = findProfileCookies(path.join(browser.userDataDir, dir));
+        if (!cookiesPath) continue;
+        configs.push({ ...base, cookiesPath, profile: dir, profileName: names[dir] ?? dir });
+    }
+    return configs;
+}
+
+/** True if the config matches a profile given by display name or directory name. */
+export function matchesProfile(config: BrowserConfig, profile: string): boolean {
+    const wanted = profile.trim().toLowerCase();
+    return config.profile?.toLowerCase() === wanted || config.profileName?.toLowerCase() === wanted;
+}
+
+function getChromiumBrowsers(home: string, platform: NodeJS.Platform): ChromiumBrowser[] {
+    if (platform === 'darwin') {
+        const appSupport = path.join(home, 'Library/Application Support');
+        return [
+            { name: 'chrome', userDataDir: path.join(appSupport, 'Google/Chrome'), osCryptName: 'Chrome Safe Storage', osCryptAccount: 'Chrome' },
+            { name: 'arc', userDataDir: path.join(appSupport, 'Arc/User Data'), osCryptName: 'Arc Safe Storage', osCryptAccount: 'Arc' },
+            { name: 'edge', userDataDir: path.join(appSupport, 'Microsoft Edge'), osCryptName: 'Microsoft Edge Safe Storage', osCryptAccount: 'Microsoft Edge' },
+            { name: 'brave', userDataDir: path.join(appSupport, 'BraveSoftware/Brave-Browser'), osCryptName: 'Brave Safe Storage', osCryptAccount: 'Brave' },
+            { name: 'chromium', userDataDir: path.join(appSupport, 'Chromium'), osCryptName: 'Chromium Safe Storage', osCryptAccount: 'Chromium' },
+            { name: 'vivaldi', userDataDir: path.join(appSupport, 'Vivaldi'), osCryptName: 'Vivaldi Safe Storage', osCryptAccount: 'Vivaldi' },
+            { name: 'opera', userDataDir: path.join(appSupport, 'com.operasoftware.Opera'), osCryptName: 'Opera Safe Storage', osCryptAccount: 'Opera', singleProfile: true },
+        ];
+    }
+    if (platform === 'win32') {
         const localAppData = process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local');
+        return [
+            { name: 'chrome', userDataDir: path.join(localAppData, 'Google', 'Chrome', 'User Data'), osCryptName: 'Chrome' },
+            { name: 'edge', userDataDir: path.join(localAppData, 'Microsoft', 'Edge', 'User Data'), osCryptName: 'Edge' },
+        ];
+    }
+    if (platform === 'linux') {
+        const configHome = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+        return [
+            { name: 'chrome', userDataDir: path.join(configHome, 'google-chrome'), osCryptName: 'Chrome Safe Storage', osCryptApplication: 'chrome' },
+            { name: 'edge', userDataDir: path.join(configHome, 'microsoft-edge'), osCryptName: 'Microsoft Edge Safe Storage', osCryptApplication: 'microsoft-edge' },
+            { name: 'brave', userDataDir: path.join(configHome, 'BraveSoftware/Brave-Browser'), osCryptName: 'Brave Safe Storage', osCryptApplication: 'brave' },
+            { name: 'chromium', userDataDir: path.join(configHome, 'chromium'), osCryptName: 'Chromium Safe Storage', osCryptApplication: 'chromium' },
+            { name: 'vivaldi', userDataDir: path.join(configHome, 'vivaldi'), osCryptName: 'Vivaldi Safe Storage', osCryptApplication: 'vivaldi' },
+            { name: 'opera', userDataDir: path.join(configHome, 'opera'), osCryptName: 'Opera Safe Storage', osCryptApplication: 'opera', singleProfile: true },
+        ];
+    }
+    return [];
+}
+
+function getFirefoxRoots(home: string, platform: NodeJS.Platform): Array<{ name: BrowserName; root: string }> {
+    if (platform === 'darwin') {
+        const appSupport = path.join(home, 'Library/Application Support');
+        return [
+            { name: 'firefox', root: path.join(appSupport, 'Firefox') },
+            { name: 'librewolf', root: path.join(appSupport, 'librewolf') },
+            { name: 'zen', root: path.join(appSupport, 'zen') },
+            { name: 'floorp', root: path.join(appSupport, 'Floorp') },
+        ];
+    }
+    if (platform === 'win32') {
         const roamingAppData = process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
+        return [
+            { name: 'firefox', root: path.join(roamingAppData, 'Mozilla', 'Firefox') },
+            { name: 'librewolf', root: path.join(roamingAppData, 'librewolf') },
+            { name: 'zen', root: path.join(roamingAppData, 'zen') },
+            { name: 'floorp', root: path.join(roamingAppData, 'Floorp') },
+        ];
+    }
+    if (platform === 'linux') {
+        return [
+            { name: 'firefox', root: path.join(home, '.mozilla/firefox') },
+            { name: 'librewolf', root: path.join(home, '.librewolf') },
+            { name: 'zen', root: path.join(home, '.zen') },
+            { name: 'floorp', root: path.join(home, '.floorp') },
+        ];
+    }
+    return [];
+}
 
-        // Chrome
-        const chromeUserData = path.join(localAppData, 'Google', 'Chrome', 'User Data');
-        const chromePath = path.join(chromeUserData, 'Default', 'Network', 'Cookies');
-        const chromePathLegacy = path.join(chromeUserData, 'Default', 'Cookies');
-        const chromeCookiesPath = fs.existsSync(chromePath) ? chromePath : chromePathLegacy;
-        if (fs.existsSync(chromeCookiesPath)) {
-            browsers.push({ name: 'chrome', cookiesPath: chromeCookiesPath, userDataDir: chromeUserData, osCryptName: 'Chrome' });
+/** Every Firefox(-fork) profile with a cookies DB; the default profile comes first. */
+function getFirefoxConfigs(name: BrowserName, root: string): BrowserConfig[] {
+    if (!fs.existsSync(root)) return [];
+    const browsers: BrowserConfig[] = [];
+    for (const profile of getFirefoxProfiles(root)) {
+        const cookiesPath = path.join(profile.dir, 'cookies.sqlite');
+        if (fs.existsSync(cookiesPath)) {
+            browsers.push({ name, cookiesPath, profile: path.basename(profile.dir), profileName: profile.name });
         }
+    }
+    return browsers;
+}
 
-        // Edge
-        const edgeUserData = path.join(localAppData, 'Microsoft', 'Edge', 'User Data');
-        const edgePath = path.join(edgeUserData, 'Default', 'Network', 'Cookies');
-        const edgePathLegacy = path.join(edgeUserData, 'Default', 'Cookies');
-        const edgeCookiesPath = fs.existsSync(edgePath) ? edgePath : edgePathLegacy;
-        if (fs.existsSync(edgeCookiesPath)) {
-            browsers.push({ name: 'edge', cookiesPath: edgeCookiesPath, userDataDir: edgeUserData, osCryptName: 'Edge' });
-        }
+export function getBrowserPaths(): BrowserConfig[] {
+    const home = os.homedir();
+    const platform = process.platform;
+    const browsers: BrowserConfig[] = [];
 
-        // Firefox
-        const firefoxDir = path.join(roamingAppData, 'Mozilla/Firefox/Profiles');
-        if (fs.existsSync(firefoxDir)) {
-            const profiles = fs.readdirSync(firefoxDir);
-            for (const profile of profiles) {
-                const cookiesPath = path.join(firefoxDir, profile, 'cookies.sqlite');
-                if (fs.existsSync(cookiesPath)) {
-                    browsers.push({ name: 'firefox', cookiesPath });
-                }
-            }
-        }
-    } else if (platform === 'linux') { // Linux
-        // Chrome
-        const chromePath = path.join(home, '.config/google-chrome/Default/Cookies');
-        if (fs.existsSync(chromePath)) {
-            browsers.push({ name: 'chrome', cookiesPath: chromePath, osCryptName: 'Chrome Safe Storage' });
-        }
+    // Chromium-based: every profile of every installed browser
+    for (const browser of getChromiumBrowsers(home, platform)) {
+        browsers.push(...getChromiumProfiles(browser));
+    }
 
-        // Edge
-        const edgePath = path.join(home, '.config/microsoft-edge/Default/Cookies');
-        if (fs.existsSync(edgePath)) {
-            browsers.push({ name: 'edge', cookiesPath: edgePath, osCryptName: 'Microsoft Edge Safe Storage' });
-        }
+    // Firefox and forks: profiles from profiles.ini
+    for (const { name, root } of getFirefoxRoots(home, platform)) {
+        browsers.push(...getFirefoxConfigs(name, root));
+    }
 
-        // Firefox
-        const firefoxDir = path.join(home, '.mozilla/firefox');
-        if (fs.existsSync(firefoxDir)) {
-            const profiles = fs.readdirSync(firefoxDir);
-            for (const profile of profiles) {
-                const cookiesPath = path.join(firefoxDir, profile, 'cookies.sqlite');
-                if (fs.existsSync(cookiesPath)) {
-                    browsers.push({ name: 'firefox', cookiesPath });
-                }
-            }
+    if (platform === 'darwin') { // macOS
+        // Safari (binarycookies; sandboxed container path on newer macOS)
+        const safariPaths = [
+            path.join(home, 'Library/Containers/com.apple.Safari/Data/Library/Cookies/Cookies.binarycookies'),
+            path.join(home, 'Library/Cookies/Cookies.binarycookies'),
+        ];
+        const safariPath = safariPaths.find((p) => fs.existsSync(p));
+        if (safariPath) {
+            browsers.push({ name: 'safari', cookiesPath: safariPath });
         }
     }
 
     return browsers;
-}
\ No newline at end of file
+}
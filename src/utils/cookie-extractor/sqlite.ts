@@ -23,15 +23,45 @@ export interface FirefoxCookieRow {
   expires: number;
 }
 
-/** Set by index.ts after initSqlJs() resolves. */
-let sqlJsModule: { Database: new (data?: Uint8Array | number[]) => { exec: (sql: string) => Array<{ columns: string[]; values: unknown[][] }>; close: () => void } } | null = null;
+/** Minimal subset of the sql.js Database API that we use. */
+export interface SqlJsDatabase {
+  exec: (sql: string, params?: unknown[]) => Array<{ columns: string[]; values: unknown[][] }>;
+  run: (sql: string, params?: unknown[]) => unknown;
+  export: () => Uint8Array;
+  close: () => void;
+}
 
-export function setSqlJs(sql: typeof sqlJsModule): void {
-  sqlJsModule = sql;
+export interface SqlJsStatic {
+  Database: new (data?: Uint8Array | number[]) => SqlJsDatabase;
 }
 
-function getSqlJs(): typeof sqlJsModule {
-  return sqlJsModule;
+let sqlJsLoading: Promise<SqlJsStatic | null> | null = null;
+
+/**
+ * Load and init pure-JS sql.js on first use. It takes a noticeable part of a
+ * second, so only paths that read cookie DBs or history call this. Resolves
+ * null if sql.js is missing or fails to init.
+ */
+export function loadSqlJs(): Promise<SqlJsStatic | null> {
+  sqlJsLoading ??= (async () => {
+    // Prefer sql-asm.js (self-contained); fall back to sql-wasm.js (needs .wasm file).
+    let initSqlJs: () => Promise<SqlJsStatic>;
+    try {
+      initSqlJs = require('sql.js/dist/sql-asm.js');
+    } catch {
+      try {
+        initSqlJs = require('sql.js');
+      } catch {
+        return null;
+      }
+    }
+    try {
+      return await initSqlJs();
+    } catch {
+      return null;
+    }
+  })();
+  return sqlJsLoading;
 }
 
 /**
@@ -47,16 +77,16 @@ export function copyToTemp(sourcePath: string): string {
 
 /**
  * Read Chromium cookies from a Cookies SQLite DB.
- * Uses sql.js (pure JS). Returns [] if sql.js not inited.
+ * Uses sql.js (pure JS). Returns [] if sql.js is not available.
  */
-export function readChromiumCookiesFromDb(
+export async function readChromiumCookiesFromDb(
   dbPath: string,
   domainFilter: (host: string) => boolean,
   decrypt: (valuePlain: string, encryptedValue: Buffer) => string | null
-): { cookies: Array<{ name: string; value: string }>; error?: string } {
-  const sqlJs = getSqlJs();
+): Promise<{ cookies: Array<{ name: string; value: string }>; error?: string }> {
+  const sqlJs = await loadSqlJs();
   if (!sqlJs) {
-    return { cookies: [], error: 'SQLite not available (sql.js not inited)' };
+    return { cookies: [], error: 'SQLite not available (sql.js failed to load)' };
   }
   return readChromiumCookiesSqlJs(dbPath, domainFilter, decrypt, sqlJs);
 }
@@ -101,7 +131,7 @@ function readChromiumCookiesSqlJs(
   dbPath: string,
   domainFilter: (host: string) => boolean,
   decrypt: (valuePlain: string, encryptedValue: Buffer) => string | null,
-  SQL: { Database: new (data?: Uint8Array | number[]) => { exec: (sql: string) => Array<{ columns: string[]; values: unknown[][] }>; close: () => void } }
+  SQL: SqlJsStatic
 ): { cookies: Array<{ name: string; value: string }>; error?: string } {
   let tmpPath: string | null = null;
   try {
@@ -141,16 +171,23 @@ function cleanupTemp(tmpPath: string): void {
   }
 }
 
+/** Firefox cookie with its origin attributes (e.g. '^userContextId=2' inside a container). */
+export interface FirefoxCookie {
+  name: string;
+  value: string;
+  originAttributes: string;
+}
+
 /**
  * Read Firefox cookies from cookies.sqlite (plaintext, no decryption).
  */
-export function readFirefoxCookiesFromDb(
+export async function readFirefoxCookiesFromDb(
   dbPath: string,
   domainFilter: (host: string) => boolean
-): { cookies: Array<{ name: string; value: string }>; error?: string } {
-  const sqlJs = getSqlJs();
+): Promise<{ cookies: FirefoxCookie[]; error?: string }> {
+  const sqlJs = await loadSqlJs();
   if (!sqlJs) {
-    return { cookies: [], error: 'SQLite not available (sql.js not inited)' };
+    return { cookies: [], error: 'SQLite not available (sql.js failed to load)' };
   }
   return readFirefoxCookiesSqlJs(dbPath, domainFilter, sqlJs);
 }
@@ -158,8 +195,8 @@ export function readFirefoxCookiesFromDb(
 function processFirefoxRows(
   rows: unknown[],
   domainFilter: (host: string) => boolean
-): { cookies: Array<{ name: string; value: string }> } {
-  const cookies: Array<{ name: string; value: string }> = [];
+): { cookies: FirefoxCookie[] } {
+  const cookies: FirefoxCookie[] = [];
   const nowSec = Math.floor(Date.now() / 1000);
   for (const row of rows) {
     const r = row as Record<string, unknown>;
@@ -167,7 +204,11 @@ function processFirefoxRows(
     if (!domainFilter(host)) continue;
     const expiry = Number(r.expiry ?? 0);
     if (expiry > 0 && expiry < nowSec) continue;
-    cookies.push({ name: String(r.name ?? ''), value: String(r.value ?? '') });
+    cookies.push({
+      name: String(r.name ?? ''),
+      value: String(r.value ?? ''),
+      originAttributes: String(r.originAttributes ?? ''),
+    });
   }
   return { cookies };
 }
@@ -175,14 +216,20 @@ function processFirefoxRows(
 function readFirefoxCookiesSqlJs(
   dbPath: string,
   domainFilter: (host: string) => boolean,
-  SQL: { Database: new (data?: Uint8Array | number[]) => { exec: (sql: string) => Array<{ columns: string[]; values: unknown[][] }>; close: () => void } }
-): { cookies: Array<{ name: string; value: string }>; error?: string } {
+  SQL: SqlJsStatic
+): { cookies: FirefoxCookie[]; error?: string } {
   let tmpPath: string | null = null;
   try {
     tmpPath = copyToTemp(dbPath);
     const buf = fs.readFileSync(tmpPath);
     const db = new SQL.Database(buf instanceof Uint8Array ? buf : new Uint8Array(buf));
-    const results = db.exec('SELECT host, name, value, path, expiry FROM moz_cookies');
+    let results: Array<{ columns: string[]; values: unknown[][] }>;
+    try {
+      results = db.exec('SELECT host, name, value, path, expiry, originAttributes FROM moz_cookies');
+    } catch {
+      // Very old profiles have no originAttributes column
+      results = db.exec('SELECT host, name, value, path, expiry FROM moz_cookies');
+    }
     db.close();
     if (!results.length || !results[0].values.length) {
       return { cookies: [] };
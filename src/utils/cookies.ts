@@ -1,14 +1,109 @@
-import { getCookies, toCookieHeader } from './cookie-extractor';
-import { getPreferredBrowser } from './config';
+import { diagnoseCookies, getCookies, getCookiesFromFile, toCookieHeader, type BrowserCookieDiagnosis, type Cookie } from './cookie-extractor';
+import type { BrowserName } from './cookie-extractor/paths';
+import { getPreferredBrowser, getPreferredBrowserProfile, getPreferredFirefoxProfile, getPreferredFirefoxContainer, getSessionToken, accountSessionKey } from './config';
 import chalk from 'chalk';
+import type { ProviderAccount } from '../providers/types';
 
-type BrowserName = 'arc' |'chrome' | 'edge' | 'firefox' | 'safari';
+export type CookieProvider = 'cursor';
 
-export async function getProviderCookies(provider: 'cursor'): Promise<string | null> {
-  const options = {
+/** Where a provider's session cookie came from. */
+export type CookieSource = 'config' | 'env' | 'cookie-file' | 'browser';
+
+export interface ProviderCookies {
+  header: string;
+  source: CookieSource;
+}
+
+interface CookieProviderSpec {
+  url: string;
+  names: string[];
+  /** Cookie name used when the user hands us a bare session token. */
+  sessionCookie: string;
+  /** Env var holding a manual session token. */
+  sessionEnv: string;
+}
+
+const PROVIDER_COOKIES: Record<CookieProvider, CookieProviderSpec> = {
+  cursor: {
     url: 'https://cursor.com',
     names: ['WorkosCursorSessionToken', '__Secure-next-auth.session-token', 'next-auth.session-token'],
-  };
+    sessionCookie: 'WorkosCursorSessionToken',
+    sessionEnv: 'TLENS_CURSOR_SESSION',
+  },
+};
+
+const SOURCE_LABELS: Record<CookieSource, string> = {
+  config: 'tokenlens config',
+  env: 'environment variable',
+  'cookie-file': 'cookie file',
+  browser: 'browser',
+};
+
+export function describeCookieSource(source: CookieSource): string {
+  return SOURCE_LABELS[source];
+}
+
+/** Cookie headers already extracted in this process, so long-running commands don't re-prompt the Keychain. */
+const cookieCache = new Map<string, ProviderCookies>();
+
+function cacheKey(provider: CookieProvider, account?: ProviderAccount): string {
+  return account ? `${provider}@${account.name}` : provider;
+}
+
+/** Forget a cached cookie header (e.g. after the provider rejected it). */
+export function clearProviderCookies(provider: CookieProvider, account?: ProviderAccount): void {
+  cookieCache.delete(cacheKey(provider, account));
+}
+
+function toHeader(cookies: Cookie[]): string | null {
+  const validCookies = cookies.filter((c) => c.value && c.value.trim() !== '');
+  if (validCookies.length === 0) return null;
+  return toCookieHeader(validCookies, { dedupeByName: true });
+}
+
+function readCookieFile(provider: CookieProvider, cookieFile: string): ProviderCookies | null {
+  const spec = PROVIDER_COOKIES[provider];
+  const { cookies, warnings } = getCookiesFromFile({ url: spec.url, names: spec.names, filePath: cookieFile });
+  if (process.env.DEBUG && warnings.length > 0) {
+    console.log(chalk.yellow(`[Cookie] Cookie file warnings: ${warnings.join(', ')}`));
+  }
+  const header = toHeader(cookies);
+  if (header) return { header, source: 'cookie-file' };
+  if (process.env.DEBUG) console.log(chalk.dim(`[Cookie] No ${provider} cookies in ${cookieFile}`));
+  return null;
+}
+
+function sessionCookies(provider: CookieProvider, token: string, source: CookieSource): ProviderCookies {
+  return { header: toCookieHeader([{ name: PROVIDER_COOKIES[provider].sessionCookie, value: token }]), source };
+}
+
+/**
+ * Manual overrides, in order: --cookie-file (exposed to us as
+ * TLENS_COOKIE_FILE), the TLENS_<PROVIDER>_SESSION env var, then the token
+ * saved with `config set <provider>-session`. A named account only uses its
+ * own session and cookie file.
+ */
+function getManualCookies(provider: CookieProvider, account?: ProviderAccount): ProviderCookies | null {
+  if (account) {
+    const session = getSessionToken(accountSessionKey(account)) ?? account.session;
+    if (session) return sessionCookies(provider, session, 'config');
+    return account.cookieFile ? readCookieFile(provider, account.cookieFile) : null;
+  }
+  const spec = PROVIDER_COOKIES[provider];
+  const cookieFile = process.env.TLENS_COOKIE_FILE;
+  if (cookieFile) {
+    const fromFile = readCookieFile(provider, cookieFile);
+    if (fromFile) return fromFile;
+  }
+  const envToken = process.env[spec.sessionEnv]?.trim();
+  if (envToken) return sessionCookies(provider, envToken, 'env');
+  const configToken = getSessionToken(provider);
+  if (configToken) return sessionCookies(provider, configToken, 'config');
+  return null;
+}
+
+async function getBrowserCookies(provider: CookieProvider, account?: ProviderAccount): Promise<ProviderCookies | null> {
+  const options = PROVIDER_COOKIES[provider];
 
   const pref = getPreferredBrowser();
   let browsers: BrowserName[] | undefined;
@@ -16,14 +111,23 @@ export async function getProviderCookies(provider: 'cursor'): Promise<string | n
     browsers = [pref as BrowserName];
   }
 
+  // An account's profile may name either a Chromium or a Firefox profile.
+  const chromeProfile = account?.browserProfile ?? getPreferredBrowserProfile();
+  const firefoxProfile = account?.browserProfile ?? getPreferredFirefoxProfile();
+  const firefoxContainer = getPreferredFirefoxContainer();
+
   try {
     if (process.env.DEBUG) {
-      console.log(chalk.dim(`[Cookie] Checking ${provider} in ${browsers?.join(', ') ?? 'all browsers'}`));
+      const profileStr = chromeProfile ? ` (profile "${chromeProfile}")` : '';
+      console.log(chalk.dim(`[Cookie] Checking ${provider} in ${browsers?.join(', ') ?? 'all browsers'}${profileStr}`));
     }
     const { cookies, warnings } = await getCookies({
       url: options.url,
       names: options.names,
       browsers,
+      chromeProfile,
+      firefoxProfile,
+      firefoxContainer,
       timeoutMs: 5000,
     });
 
@@ -36,16 +140,43 @@ export async function getProviderCookies(provider: 'cursor'): Promise<string | n
       return null;
     }
 
-    const validCookies = cookies.filter((c) => c.value && c.value.trim() !== '');
-    if (validCookies.length === 0) {
+    const header = toHeader(cookies);
+    if (!header) {
       if (process.env.DEBUG) console.log(chalk.dim(`[Cookie] Found cookies but all were empty for ${provider}`));
       return null;
     }
 
-    if (process.env.DEBUG) console.log(chalk.dim(`[Cookie] Successfully found ${validCookies.length} cookies for ${provider}`));
-    return toCookieHeader(validCookies, { dedupeByName: true });
+    if (process.env.DEBUG) console.log(chalk.dim(`[Cookie] Successfully found ${cookies.length} cookies for ${provider}`));
+    return { header, source: 'browser' };
   } catch (error) {
     if (process.env.DEBUG) console.error(chalk.red(`[Cookie] Error: ${error}`));
     return null;
   }
 }
+
+/** Resolve a provider's session cookies: manual overrides first, then local browsers. */
+export async function resolveProviderCookies(provider: CookieProvider, account?: ProviderAccount): Promise<ProviderCookies | null> {
+  const key = cacheKey(provider, account);
+  const cached = cookieCache.get(key);
+  if (cached) return cached;
+
+  const resolved = getManualCookies(provider, account) ?? (await getBrowserCookies(provider, account));
+  if (resolved) {
+    if (process.env.DEBUG) console.log(chalk.dim(`[Cookie] Using ${key} session from ${describeCookieSource(resolved.source)}`));
+    cookieCache.set(key, resolved);
+  }
+  return resolved;
+}
+
+export async function getProviderCookies(provider: CookieProvider, account?: ProviderAccount): Promise<string | null> {
+  return (await resolveProviderCookies(provider, account))?.header ?? null;
+}
+
+/** Manual session source (if any) and what every browser profile holds, for `tlens doctor`. */
+export async function diagnoseProviderCookies(
+  provider: CookieProvider
+): Promise<{ manual: CookieSource | null; browsers: BrowserCookieDiagnosis[] }> {
+  const spec = PROVIDER_COOKIES[provider];
+  const manual = getManualCookies(provider)?.source ?? null;
+  return { manual, browsers: await diagnoseCookies({ url: spec.url, names: spec.names }) };
+}
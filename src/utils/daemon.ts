@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getConfigDir } from './config';
+
+const TOKEN_FILE = 'daemon.token';
+const STATE_FILE = 'daemon.json';
+
+/** Written while the daemon runs so clients can find its port. */
+export interface DaemonState {
+  pid: number;
+  port: number;
+  url: string;
+  startedAt: string;
+}
+
+export function getDaemonTokenPath(): string {
+  return path.join(getConfigDir(), TOKEN_FILE);
+}
+
+export function getDaemonStatePath(): string {
+  return path.join(getConfigDir(), STATE_FILE);
+}
+
+/** Bearer token clients must send; generated (owner-readable only) on first use. */
+export function getDaemonToken(): string {
+  const tokenPath = getDaemonTokenPath();
+  try {
+    const existing = fs.readFileSync(tokenPath, 'utf8').trim();
+    if (existing) return existing;
+  } catch {
+    // not created yet
+  }
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(tokenPath), { recursive: true });
+  fs.writeFileSync(tokenPath, `${token}\n`, { mode: 0o600 });
+  return token;
+}
+
+/** Constant-time check of an Authorization header against the token. */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+export function writeDaemonState(state: DaemonState): void {
+  fs.writeFileSync(getDaemonStatePath(), JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+export function clearDaemonState(): void {
+  fs.rmSync(getDaemonStatePath(), { force: true });
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDuration } from './duration';
+
+test('parses short units', () => {
+  assert.equal(parseDuration('300ms'), 300);
+  assert.equal(parseDuration('90s'), 90_000);
+  assert.equal(parseDuration('5m'), 300_000);
+  assert.equal(parseDuration('12h'), 12 * 3_600_000);
+  assert.equal(parseDuration('7d'), 7 * 86_400_000);
+  assert.equal(parseDuration('2w'), 14 * 86_400_000);
+});
+
+test('parses long units, spaces, case and fractions', () => {
+  assert.equal(parseDuration('5 days'), 5 * 86_400_000);
+  assert.equal(parseDuration(' 1 Hour '), 3_600_000);
+  assert.equal(parseDuration('1.5h'), 5_400_000);
+});
+
+test('treats a bare number as seconds', () => {
+  assert.equal(parseDuration('30'), 30_000);
+});
+
+test('rejects invalid input', () => {
+  for (const input of ['', 'soon', '5 fortnights', '-5m', '5m30s']) {
+    assert.equal(parseDuration(input), null, input);
+  }
+});
@@ -0,0 +1,30 @@
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const LONG_UNITS: Record<string, string> = {
+  sec: 's', secs: 's', second: 's', seconds: 's',
+  min: 'm', mins: 'm', minute: 'm', minutes: 'm',
+  hour: 'h', hours: 'h',
+  day: 'd', days: 'd',
+  week: 'w', weeks: 'w',
+};
+
+/**
+ * Parse a duration like "90s", "5m", "12h", "7d", "2w" or "5 days" into milliseconds.
+ * A bare number is treated as seconds. Returns null if the input is invalid.
+ */
+export function parseDuration(input: string): number | null {
+  const match = String(input).trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?$/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const raw = (match[2] || 's').toLowerCase();
+  const unit = LONG_UNITS[raw] ?? raw;
+  if (!(unit in UNITS)) return null;
+  return Math.round(value * UNITS[unit]);
+}
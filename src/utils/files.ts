@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+
+/** How long a writer waits for another process to release a lock. */
+const LOCK_TIMEOUT_MS = 3000;
+/** A lock older than this was left behind by a crashed process. */
+const STALE_LOCK_MS = 30000;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Replace `file` in one step: write a temp file next to it and rename it over.
+ * Readers see the old or the new content, never a partial write.
+ */
+export function writeFileAtomic(file: string, data: string | Uint8Array, mode?: number): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tmp, data, { mode });
+    fs.renameSync(tmp, file);
+  } catch (err) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Run a read-modify-write of `file` while holding `<file>.lock`, so concurrent
+ * tlens processes (status, prompt refresh, serve, daemon) don't drop each
+ * other's updates. Throws if the lock cannot be taken in time.
+ */
+export function withFileLock<T>(file: string, fn: () => T): T {
+  const lockPath = `${file}.lock`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // released between our open and stat
+    }
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lockPath}`);
+    sleepSync(20);
+  }
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
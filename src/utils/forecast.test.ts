@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SeriesPoint } from './history';
+import { forecastSeries } from './forecast';
+
+const HOUR = 3_600_000;
+const T0 = Date.parse('2026-03-01T00:00:00Z');
+
+function point(hours: number, percent: number, reset = false, resetsAt = new Date(T0 + 100 * HOUR)): SeriesPoint {
+  return {
+    timestamp: new Date(T0 + hours * HOUR),
+    provider: 'codex',
+    window: 'weekly',
+    label: 'Weekly',
+    unit: 'percent',
+    used: percent,
+    limit: 100,
+    percent,
+    resetsAt,
+    reset,
+  };
+}
+
+test('projects exhaustion from a linear burn rate', () => {
+  const forecast = forecastSeries([point(0, 10), point(1, 20), point(2, 30)]);
+  assert.equal(forecast.ratePerHour, 10);
+  assert.deepEqual(forecast.exhaustsAt, new Date(T0 + 9 * HOUR));
+  assert.equal(forecast.beforeReset, true);
+  assert.equal(forecast.samples, 3);
+});
+
+test('fits a least-squares slope through noisy samples', () => {
+  const forecast = forecastSeries([point(0, 10), point(1, 22), point(2, 28), point(3, 40)]);
+  assert.ok(Math.abs(forecast.ratePerHour! - 9.6) < 1e-9);
+});
+
+test('only uses samples since the last reset', () => {
+  const forecast = forecastSeries([point(0, 80), point(1, 90), point(2, 0, true), point(4, 10)]);
+  assert.equal(forecast.samples, 2);
+  assert.equal(forecast.ratePerHour, 5);
+  assert.equal(forecast.percent, 10);
+});
+
+test('needs two samples spanning 15 minutes before trusting a rate', () => {
+  assert.equal(forecastSeries([point(0, 10)]).ratePerHour, null);
+  assert.equal(forecastSeries([point(0, 10), point(0.1, 12)]).ratePerHour, null);
+  assert.equal(forecastSeries([point(0, 10), point(0.1, 12)]).exhaustsAt, undefined);
+});
+
+test('does not project falling or flat usage', () => {
+  const forecast = forecastSeries([point(0, 30), point(1, 30), point(2, 29)]);
+  assert.equal(forecast.ratePerHour, 0);
+  assert.equal(forecast.exhaustsAt, undefined);
+  assert.equal(forecast.beforeReset, false);
+});
+
+test('reports a window already at 100% as exhausted now', () => {
+  const forecast = forecastSeries([point(0, 90), point(1, 100)]);
+  assert.deepEqual(forecast.exhaustsAt, new Date(T0 + HOUR));
+});
+
+test('is not before the reset when the window resets first', () => {
+  const forecast = forecastSeries([point(0, 10, false, new Date(T0 + 2 * HOUR)), point(1, 11, false, new Date(T0 + 2 * HOUR))]);
+  assert.equal(forecast.beforeReset, false);
+});
@@ -0,0 +1,94 @@
+import { querySnapshots, buildSeries, type SeriesPoint } from './history';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Only samples this recent feed the burn rate, so it tracks current usage. */
+const RATE_WINDOW_MS = 24 * HOUR_MS;
+/** Samples must span at least this long before a rate is trusted. */
+const MIN_SPAN_MS = 15 * 60 * 1000;
+
+export interface Forecast {
+  provider: string;
+  account?: string;
+  window: string;
+  label: string;
+  /** Percent used at the latest sample. */
+  percent: number;
+  sampledAt: Date;
+  /** Samples since the window last reset (within the rate window). */
+  samples: number;
+  spanMs: number;
+  /** Percentage points consumed per hour; null while there are too few samples. */
+  ratePerHour: number | null;
+  /** When usage is projected to reach 100%; undefined if it is not rising. */
+  exhaustsAt?: Date;
+  resetsAt?: Date;
+  /** True when exhaustion is projected before the window resets. */
+  beforeReset: boolean;
+}
+
+/** Least-squares slope of percent over time, in points per hour. */
+function slopePerHour(points: SeriesPoint[]): number {
+  const t0 = points[0].timestamp.getTime();
+  const xs = points.map((p) => (p.timestamp.getTime() - t0) / HOUR_MS);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((a, p) => a + p.percent, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  xs.forEach((x, i) => {
+    num += (x - meanX) * (points[i].percent - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return den > 0 ? num / den : 0;
+}
+
+/** Project one window's series (ordered by time) from the samples since its last reset. */
+export function forecastSeries(points: SeriesPoint[]): Forecast {
+  let start = 0;
+  points.forEach((p, i) => {
+    if (p.reset) start = i;
+  });
+  const current = points.slice(start);
+  const first = current[0];
+  const last = current[current.length - 1];
+  const spanMs = last.timestamp.getTime() - first.timestamp.getTime();
+
+  const ratePerHour = current.length >= 2 && spanMs >= MIN_SPAN_MS ? Math.max(0, slopePerHour(current)) : null;
+  let exhaustsAt: Date | undefined;
+  if (last.percent >= 100) {
+    exhaustsAt = last.timestamp;
+  } else if (ratePerHour) {
+    exhaustsAt = new Date(last.timestamp.getTime() + ((100 - last.percent) / ratePerHour) * HOUR_MS);
+  }
+
+  return {
+    provider: last.provider,
+    account: last.account,
+    window: last.window,
+    label: last.label,
+    percent: last.percent,
+    sampledAt: last.timestamp,
+    samples: current.length,
+    spanMs,
+    ratePerHour,
+    exhaustsAt,
+    resetsAt: last.resetsAt,
+    beforeReset: exhaustsAt != null && last.resetsAt != null && exhaustsAt.getTime() < last.resetsAt.getTime(),
+  };
+}
+
+/**
+ * Forecasts for every window with recent history, keyed like buildSeries
+ * ('codex.weekly', 'codex@work.weekly'). Windows without a limit, and windows
+ * whose recorded reset time has already passed, are left out.
+ */
+export async function getForecasts(provider?: string, now = Date.now()): Promise<Map<string, Forecast>> {
+  const snapshots = await querySnapshots({ provider, since: new Date(now - RATE_WINDOW_MS) });
+  const forecasts = new Map<string, Forecast>();
+  for (const [key, points] of buildSeries(snapshots)) {
+    const last = points[points.length - 1];
+    if (last.limit <= 0) continue;
+    if (last.resetsAt && last.resetsAt.getTime() <= now) continue;
+    forecasts.set(key, forecastSeries(points));
+  }
+  return forecasts;
+}
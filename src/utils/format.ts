@@ -0,0 +1,73 @@
+import chalk from 'chalk';
+
+export function progressBar(percent: number, length = 10): string {
+  const filled = Math.min(length, Math.max(0, Math.round((percent / 100) * length)));
+  const empty = length - filled;
+  return '█'.repeat(filled) + '░'.repeat(empty);
+}
+
+export function formatDate(date?: Date): string {
+  if (!date) return 'Unknown';
+  const now = new Date();
+  const diffTime = date.getTime() - now.getTime();
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  
+  if (diffDays <= 0) {
+    const diffHours = Math.ceil(diffTime / (1000 * 60 * 60));
+    return `Reset in ${diffHours}h`;
+  }
+  
+  return `${date.toLocaleDateString()} (${diffDays} days)`;
+}
+
+export type UsageLevel = 'green' | 'yellow' | 'red';
+
+/** Green / yellow / red at the 50% and 80% thresholds. */
+export function usageLevel(percent: number): UsageLevel {
+  return percent > 80 ? 'red' : (percent > 50 ? 'yellow' : 'green');
+}
+
+export function usageColor(percent: number) {
+  return chalk[usageLevel(percent)];
+}
+
+/** Time left until `date` as "2d 04h 13m 05s" (leading zero units dropped). */
+export function formatCountdown(date: Date, now = Date.now()): string {
+  let secs = Math.max(0, Math.floor((date.getTime() - now) / 1000));
+  const days = Math.floor(secs / 86400);
+  secs -= days * 86400;
+  const hours = Math.floor(secs / 3600);
+  secs -= hours * 3600;
+  const mins = Math.floor(secs / 60);
+  secs -= mins * 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (days > 0) return `${days}d ${pad(hours)}h ${pad(mins)}m ${pad(secs)}s`;
+  if (hours > 0) return `${hours}h ${pad(mins)}m ${pad(secs)}s`;
+  return `${mins}m ${pad(secs)}s`;
+}
+
+/** Time left until `date` in at most two units, e.g. "2d4h", "3h12m", "7m". */
+export function formatShortCountdown(date: Date, now = Date.now()): string {
+  const mins = Math.max(0, Math.floor((date.getTime() - now) / 60000));
+  const days = Math.floor(mins / 1440);
+  const hours = Math.floor((mins % 1440) / 60);
+  if (days > 0) return `${days}d${hours}h`;
+  if (hours > 0) return `${hours}h${mins % 60}m`;
+  return `${mins}m`;
+}
+
+/** Rough "how long ago" label, e.g. "45s", "3m", "2h". */
+export function formatAge(date: Date, now = Date.now()): string {
+  const secs = Math.max(0, Math.round((now - date.getTime()) / 1000));
+  if (secs < 60) return `${secs}s`;
+  if (secs < 3600) return `${Math.round(secs / 60)}m`;
+  if (secs < 86400) return `${Math.round(secs / 3600)}h`;
+  return `${Math.round(secs / 86400)}d`;
+}
+
+/** Compact token count, e.g. 950, 12.3k, 4.1M. */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
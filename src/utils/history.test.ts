@@ -0,0 +1,67 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import type { ProviderResult, UsageProvider } from '../providers';
+import { buildSeries, createSnapshotRecorder, getHistoryPath, querySnapshots, recordSnapshots, type Snapshot } from './history';
+
+const MIN = 60_000;
+// Recent enough to survive the 90-day retention cleanup.
+const T0 = Date.now() - 24 * 60 * MIN;
+
+function result(minutes: number, percent: number, account?: string): ProviderResult {
+  return {
+    provider: { id: 'codex', name: 'Codex', account } as UsageProvider,
+    state: 'ok',
+    usage: { windows: [{ id: 'weekly', label: 'Weekly', unit: 'percent', used: percent, limit: 100, percent }] },
+    fetchedAt: new Date(T0 + minutes * MIN),
+  };
+}
+
+async function recordedMinutes(): Promise<number[]> {
+  return (await querySnapshots()).map((s) => (s.timestamp.getTime() - T0) / MIN);
+}
+
+beforeEach(() => {
+  fs.rmSync(getHistoryPath(), { force: true });
+});
+
+test('records every window of every successful result', async () => {
+  const limitless = result(0, 0, 'tokens');
+  limitless.usage!.windows[0].limit = 0;
+  const failed: ProviderResult = { ...result(0, 5, 'down'), state: 'network_error', usage: null };
+  await recordSnapshots([result(0, 10), result(0, 20, 'work'), limitless, failed]);
+  const rows = await querySnapshots({ since: new Date(T0 - MIN) });
+  assert.deepEqual(rows.map((r) => [r.account, r.percent]), [[undefined, 10], ['work', 20]]);
+});
+
+test('throttled writes follow the last row in the DB, across processes', async () => {
+  // Each call stands for a separate `tlens prompt` background refresh.
+  for (let m = 0; m <= 40; m++) await recordSnapshots([result(m, 10)], { throttle: true });
+  assert.deepEqual(await recordedMinutes(), [0, 30]);
+  await recordSnapshots([result(41, 11)], { throttle: true });
+  await recordSnapshots([result(43, 12)], { throttle: true });
+  await recordSnapshots([result(46, 13)], { throttle: true });
+  assert.deepEqual(await recordedMinutes(), [0, 30, 41, 46]);
+});
+
+test('the in-memory recorder writes changes every 5 minutes and idle windows every 30', async () => {
+  const record = createSnapshotRecorder();
+  for (let m = 0; m < 70; m++) await record([result(m, m < 60 ? 10 : 10 + m)]);
+  assert.deepEqual(await recordedMinutes(), [0, 30, 60, 65]);
+});
+
+test('marks drops and moved reset times as resets', () => {
+  const snap = (minutes: number, percent: number, resetsAt?: number): Snapshot => ({
+    timestamp: new Date(T0 + minutes * MIN),
+    provider: 'codex',
+    window: 'weekly',
+    label: 'Weekly',
+    unit: 'percent',
+    used: percent,
+    limit: 100,
+    percent,
+    resetsAt: resetsAt === undefined ? undefined : new Date(T0 + resetsAt * MIN),
+  });
+  const series = buildSeries([snap(0, 50, 10), snap(5, 52, 10), snap(15, 52, 200), snap(20, 40, 200), snap(25, 38, 200)]);
+  assert.deepEqual(series.get('codex.weekly')!.map((p) => p.reset), [false, false, true, true, false]);
+});
@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { getConfigDir } from './config';
+import { withFileLock, writeFileAtomic } from './files';
+import { loadSqlJs, type SqlJsDatabase, type SqlJsStatic } from './cookie-extractor/sqlite';
+import { hasKnownLimit, type ProviderResult, type UsageUnit, type UsageWindow } from '../providers';
+
+const HISTORY_FILE = 'history.sqlite';
+const RETENTION_DAYS = 90;
+/** A drop of more than this many percentage points counts as a reset. */
+const RESET_DROP_THRESHOLD = 5;
+/** Throttled writes (prompt, serve, daemon, watch) record a changed window at most this often... */
+const CHANGED_RECORD_INTERVAL_MS = 5 * 60 * 1000;
+/** ...and an unchanged one at most this often, so idle windows still show up in history. */
+const UNCHANGED_RECORD_INTERVAL_MS = 30 * 60 * 1000;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS snapshots (
+  ts INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  window TEXT NOT NULL,
+  label TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  used REAL NOT NULL,
+  limit_value REAL NOT NULL,
+  percent REAL NOT NULL,
+  resets_at INTEGER,
+  account TEXT
+);
+CREATE INDEX IF NOT EXISTS snapshots_provider_ts ON snapshots (provider, ts);
+`;
+
+export interface Snapshot {
+  timestamp: Date;
+  provider: string;
+  /** Named account, undefined for the provider's default one. */
+  account?: string;
+  window: string;
+  label: string;
+  unit: UsageUnit;
+  used: number;
+  limit: number;
+  percent: number;
+  resetsAt?: Date;
+}
+
+export interface SeriesPoint extends Snapshot {
+  /** True when this sample follows a window reset (usage dropped or reset time moved forward). */
+  reset: boolean;
+}
+
+export interface HistoryQuery {
+  provider?: string;
+  since?: Date;
+}
+
+export function getHistoryPath(): string {
+  return path.join(getConfigDir(), HISTORY_FILE);
+}
+
+/**
+ * Open the history DB (creating it if needed).
+ * With `recover`, an unreadable file is moved aside and a new DB started, so one
+ * corrupt write doesn't stop recording for good.
+ */
+function openDb(SQL: SqlJsStatic, recover = false): SqlJsDatabase {
+  const dbPath = getHistoryPath();
+  const data = fs.existsSync(dbPath) ? new Uint8Array(fs.readFileSync(dbPath)) : undefined;
+  let db: SqlJsDatabase | undefined;
+  try {
+    db = new SQL.Database(data);
+    db.exec(SCHEMA);
+  } catch (err) {
+    db?.close();
+    if (!recover || !data) throw err;
+    const aside = `${dbPath}.corrupt-${Date.now()}`;
+    fs.renameSync(dbPath, aside);
+    console.error(chalk.yellow(`[History] ${dbPath} was unreadable (${(err as Error).message}); moved it to ${aside} and started a new one`));
+    db = new SQL.Database();
+    db.exec(SCHEMA);
+  }
+  // History files written before named accounts existed lack the column.
+  const columns = db.exec('PRAGMA table_info(snapshots)')[0]?.values.map((v) => String(v[1])) ?? [];
+  if (!columns.includes('account')) db.exec('ALTER TABLE snapshots ADD COLUMN account TEXT');
+  return db;
+}
+
+function saveDb(db: SqlJsDatabase): void {
+  writeFileAtomic(getHistoryPath(), db.export());
+}
+
+interface RecordedWindow {
+  ts: number;
+  used: number;
+  percent: number;
+  resetsAt?: number;
+}
+
+export interface RecordOptions {
+  /** Skip windows that are not due yet (see isRecordDue), judged by the last row in the DB. */
+  throttle?: boolean;
+}
+
+/**
+ * Whether a window sampled at `ts` is worth another row: it changed since the
+ * last one (and that is at least 5 minutes old), or 30 minutes have passed.
+ * Keeps 90 days of history to a few hundred rows per window per day.
+ */
+function isRecordDue(last: RecordedWindow | undefined, window: UsageWindow, ts: number): boolean {
+  if (!last) return true;
+  const changed = window.used !== last.used || window.percent !== last.percent || window.resetsAt?.getTime() !== last.resetsAt;
+  return ts - last.ts >= (changed ? CHANGED_RECORD_INTERVAL_MS : UNCHANGED_RECORD_INTERVAL_MS);
+}
+
+function lastRecorded(db: SqlJsDatabase, provider: string, account: string | undefined, window: string): RecordedWindow | undefined {
+  const rows = db.exec(
+    'SELECT ts, used, percent, resets_at FROM snapshots WHERE provider = ? AND window = ? AND account IS ? ORDER BY ts DESC LIMIT 1',
+    [provider, window, account ?? null]
+  );
+  const v = rows[0]?.values[0];
+  if (!v) return undefined;
+  return { ts: Number(v[0]), used: Number(v[1]), percent: Number(v[2]), resetsAt: v[3] != null ? Number(v[3]) : undefined };
+}
+
+/**
+ * Append one snapshot per usage window for every successful result.
+ * Failures are only reported with --debug; history must never break `status`.
+ */
+export async function recordSnapshots(results: ProviderResult[], options: RecordOptions = {}): Promise<void> {
+  const ok = results.filter((r) => r.state === 'ok' && r.usage && r.usage.windows.length > 0);
+  if (ok.length === 0) return;
+  try {
+    const SQL = await loadSqlJs();
+    if (!SQL) return;
+    // Load, insert and save under one lock: status, prompt, serve and daemon all write here.
+    withFileLock(getHistoryPath(), () => {
+      const db = openDb(SQL, true);
+      try {
+        let inserted = 0;
+        for (const result of ok) {
+          const ts = result.fetchedAt.getTime();
+          for (const w of result.usage!.windows) {
+            if (!hasKnownLimit(w)) continue;
+            if (options.throttle && !isRecordDue(lastRecorded(db, result.provider.id, result.provider.account, w.id), w, ts)) continue;
+            inserted++;
+            db.run(
+              'INSERT INTO snapshots (ts, provider, window, label, unit, used, limit_value, percent, resets_at, account) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [ts, result.provider.id, w.id, w.label, w.unit, w.used, w.limit, w.percent, w.resetsAt ? w.resetsAt.getTime() : null, result.provider.account ?? null]
+            );
+          }
+        }
+        if (inserted === 0) return;
+        db.run('DELETE FROM snapshots WHERE ts < ?', [Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000]);
+        saveDb(db);
+      } finally {
+        db.close();
+      }
+    });
+  } catch (err) {
+    if (process.env.DEBUG) {
+      console.error(chalk.yellow(`[History] Failed to record snapshot: ${(err as Error).message}`));
+    }
+  }
+}
+
+/**
+ * Throttled recordSnapshots for loops that poll every minute (serve, daemon,
+ * watch). Remembers what it wrote, so windows that are not due yet skip the DB.
+ */
+export function createSnapshotRecorder(): (results: ProviderResult[]) => Promise<void> {
+  const recorded = new Map<string, RecordedWindow>();
+  return (results) => {
+    const due: ProviderResult[] = [];
+    for (const result of results) {
+      if (result.state !== 'ok' || !result.usage) continue;
+      const ts = result.fetchedAt.getTime();
+      const windows = result.usage.windows.filter((w) =>
+        isRecordDue(recorded.get(seriesKey(result.provider.id, result.provider.account, w.id)), w, ts)
+      );
+      if (windows.length === 0) continue;
+      for (const w of windows) {
+        recorded.set(seriesKey(result.provider.id, result.provider.account, w.id), {
+          ts,
+          used: w.used,
+          percent: w.percent,
+          resetsAt: w.resetsAt?.getTime(),
+        });
+      }
+      due.push({ ...result, usage: { ...result.usage, windows } });
+    }
+    return recordSnapshots(due);
+  };
+}
+
+/** Read snapshots ordered by time. Returns [] if there is no history yet. */
+export async function querySnapshots(query: HistoryQuery = {}): Promise<Snapshot[]> {
+  if (!fs.existsSync(getHistoryPath())) return [];
+  const SQL = await loadSqlJs();
+  if (!SQL) throw new Error('SQLite not available (sql.js failed to load)');
+  const db = openDb(SQL);
+  try {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (query.provider) {
+      where.push('provider = ?');
+      params.push(query.provider);
+    }
+    if (query.since) {
+      where.push('ts >= ?');
+      params.push(query.since.getTime());
+    }
+    const sql =
+      'SELECT ts, provider, window, label, unit, used, limit_value, percent, resets_at, account FROM snapshots' +
+      (where.length ? ` WHERE ${where.join(' AND ')}` : '') +
+      ' ORDER BY provider, account, window, ts';
+    const results = db.exec(sql, params);
+    if (!results.length) return [];
+    return results[0].values.map((v) => ({
+      timestamp: new Date(Number(v[0])),
+      provider: String(v[1]),
+      window: String(v[2]),
+      label: String(v[3]),
+      unit: String(v[4]) as UsageUnit,
+      used: Number(v[5]),
+      limit: Number(v[6]),
+      percent: Number(v[7]),
+      resetsAt: v[8] != null ? new Date(Number(v[8])) : undefined,
+      account: v[9] != null ? String(v[9]) : undefined,
+    }));
+  } finally {
+    db.close();
+  }
+}
+
+/** Series key for one window of a provider instance, e.g. 'codex.weekly' or 'codex@work.weekly'. */
+export function seriesKey(provider: string, account: string | undefined, window: string): string {
+  return `${provider}${account ? `@${account}` : ''}.${window}`;
+}
+
+/**
+ * Group snapshots into per-provider/account/window series and flag resets: a sample
+ * is a reset when usage dropped noticeably or the window's reset time moved forward.
+ */
+export function buildSeries(snapshots: Snapshot[]): Map<string, SeriesPoint[]> {
+  const series = new Map<string, SeriesPoint[]>();
+  for (const snap of snapshots) {
+    const key = seriesKey(snap.provider, snap.account, snap.window);
+    const points = series.get(key) ?? [];
+    const prev = points[points.length - 1];
+    let reset = false;
+    if (prev) {
+      const dropped = snap.percent < prev.percent - RESET_DROP_THRESHOLD || (snap.percent === 0 && prev.percent > 0);
+      const rolled =
+        prev.resetsAt != null && snap.resetsAt != null && snap.resetsAt.getTime() > prev.resetsAt.getTime() &&
+        snap.timestamp.getTime() >= prev.resetsAt.getTime();
+      reset = dropped || rolled;
+    }
+    points.push({ ...snap, reset });
+    series.set(key, points);
+  }
+  return series;
+}
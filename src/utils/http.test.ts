@@ -0,0 +1,45 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createHttpClient } from './http';
+
+let server: http.Server;
+let baseUrl: string;
+/** Requests seen per path; every path answers 503 until it has been hit `failures` times. */
+const hits = new Map<string, number>();
+const failures = 1;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const count = (hits.get(req.url!) ?? 0) + 1;
+    hits.set(req.url!, count);
+    res.statusCode = count > failures ? 200 : 503;
+    res.end('{}');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+const client = createHttpClient('Test', { maxRetries: 2 });
+
+test('retries GET and HEAD on 5xx', async () => {
+  assert.equal((await client.get(`${baseUrl}/get`)).status, 200);
+  assert.equal(hits.get('/get'), 2);
+  assert.equal((await client.head(`${baseUrl}/head`)).status, 200);
+  assert.equal(hits.get('/head'), 2);
+});
+
+test('does not retry POST by default', async () => {
+  await assert.rejects(client.post(`${baseUrl}/token`, { grant_type: 'refresh_token' }), (err: { response?: { status: number } }) => err.response?.status === 503);
+  assert.equal(hits.get('/token'), 1);
+});
+
+test('retries POST when the request opts in', async () => {
+  assert.equal((await client.post(`${baseUrl}/quota`, {}, { retry: true })).status, 200);
+  assert.equal(hits.get('/quota'), 2);
+});
@@ -0,0 +1,120 @@
+import axios, { type AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import chalk from 'chalk';
+import { applyNetworkSettings } from './network';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Retries already made for this request (set by the shared client). */
+    retryCount?: number;
+    /**
+     * Retry this request although its method is not GET or HEAD. Only for
+     * requests that are safe to repeat, i.e. never for token refreshes.
+     */
+    retry?: boolean;
+    /** Date.now() when the current attempt was sent, for --debug timing. */
+    startedAt?: number;
+  }
+}
+
+export interface HttpClientOptions {
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Retries after the first attempt on 5xx, 429 and connection errors (GET / HEAD, or with `retry: true`). */
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+/** A Retry-After longer than this is not waited out; the request fails instead. */
+const MAX_RETRY_AFTER_MS = 30000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After as seconds or an HTTP date, in ms; undefined if missing or unparseable. */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with jitter: 50-100% of 500ms, 1s, 2s, ... */
+function backoffMs(attempt: number): number {
+  const max = BACKOFF_BASE_MS * 2 ** attempt;
+  return Math.round(max / 2 + Math.random() * (max / 2));
+}
+
+/**
+ * How long to wait before retrying, or null to give up. Timeouts are not retried,
+ * so a slow endpoint costs at most one timeout per request.
+ */
+function retryDelay(error: AxiosError, attempt: number): number | null {
+  const status = error.response?.status;
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+    if (retryAfter === undefined) return backoffMs(attempt);
+    return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+  }
+  if (status !== undefined) return status >= 500 ? backoffMs(attempt) : null;
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.code === 'ERR_CANCELED') return null;
+  return backoffMs(attempt);
+}
+
+/**
+ * Whether a failed request may be sent again. A POST the server handled before
+ * the response was lost must not be repeated: a rotated refresh token would be
+ * sent twice and the stored login would break.
+ */
+function isRetryable(config: InternalAxiosRequestConfig): boolean {
+  const method = (config.method ?? 'get').toLowerCase();
+  return method === 'get' || method === 'head' || config.retry === true;
+}
+
+function describe(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url ?? '', config.baseURL);
+  return `${(config.method ?? 'get').toUpperCase()} ${url.host}${url.pathname}`;
+}
+
+/**
+ * Axios instance for one provider: proxy / CA settings, a per-attempt timeout,
+ * bounded retries with jittered backoff, and request timing under --debug.
+ */
+export function createHttpClient(name: string, options: HttpClientOptions = {}): AxiosInstance {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const client = axios.create({ timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS });
+  applyNetworkSettings(client);
+
+  client.interceptors.request.use((config) => {
+    config.startedAt = Date.now();
+    return config;
+  });
+  client.interceptors.response.use(
+    (response) => {
+      if (process.env.DEBUG) {
+        const ms = Date.now() - (response.config.startedAt ?? Date.now());
+        console.log(chalk.gray(`[${name}] ${describe(response.config)} → ${response.status} (${ms}ms)`));
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config;
+      if (!config) throw error;
+      const attempt = config.retryCount ?? 0;
+      const outcome = error.response?.status ?? error.code ?? error.message;
+      const delay = attempt < maxRetries && isRetryable(config) ? retryDelay(error, attempt) : null;
+      if (process.env.DEBUG) {
+        const ms = Date.now() - (config.startedAt ?? Date.now());
+        const next = delay === null ? '' : `, retry ${attempt + 1}/${maxRetries} in ${delay}ms`;
+        console.log(chalk.gray(`[${name}] ${describe(config)} → ${outcome} (${ms}ms)${next}`));
+      }
+      if (delay === null) throw error;
+      await sleep(delay);
+      return client.request({ ...config, retryCount: attempt + 1 });
+    }
+  );
+  return client;
+}
@@ -0,0 +1,52 @@
+import { hasKnownLimit, type ProviderResult } from '../providers';
+
+/** Content type of the Prometheus text exposition format. */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface Metric {
+  name: string;
+  help: string;
+  samples: Array<{ labels: Record<string, string>; value: number }>;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, labels: Record<string, string>, value: number): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return `${name}{${pairs.join(',')}} ${value}`;
+}
+
+/**
+ * Render results as Prometheus gauges. Usage gauges are only exported for
+ * providers whose last fetch succeeded; tokenlens_provider_up says which.
+ */
+export function toPrometheusMetrics(results: ProviderResult[]): string {
+  const up: Metric = { name: 'tokenlens_provider_up', help: 'Whether the last fetch of the provider succeeded (1) or not (0).', samples: [] };
+  const usage: Metric = { name: 'tokenlens_usage_percent', help: 'Percent of the usage window consumed.', samples: [] };
+  const reset: Metric = { name: 'tokenlens_reset_timestamp_seconds', help: 'Unix time at which the usage window resets.', samples: [] };
+  const credits: Metric = { name: 'tokenlens_credits_balance', help: 'Remaining credit balance reported by the provider.', samples: [] };
+
+  for (const result of results) {
+    const base = { provider: result.provider.id, account: result.provider.account ?? 'default' };
+    up.samples.push({ labels: base, value: result.state === 'ok' ? 1 : 0 });
+    if (result.state !== 'ok' || !result.usage) continue;
+    for (const window of result.usage.windows) {
+      if (!hasKnownLimit(window)) continue;
+      const labels = { provider: base.provider, window: window.id, account: base.account };
+      usage.samples.push({ labels, value: window.percent });
+      if (window.resetsAt) reset.samples.push({ labels, value: Math.floor(window.resetsAt.getTime() / 1000) });
+    }
+    if (result.usage.credits?.balance != null) {
+      credits.samples.push({ labels: base, value: result.usage.credits.balance });
+    }
+  }
+
+  const lines: string[] = [];
+  for (const metric of [up, usage, reset, credits]) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} gauge`);
+    for (const sample of metric.samples) lines.push(formatSample(metric.name, sample.labels, sample.value));
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,34 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { isNoProxy } from './network';
+
+afterEach(() => {
+  delete process.env.NO_PROXY;
+  delete process.env.no_proxy;
+});
+
+const url = (s: string) => new URL(s);
+
+test('nothing is excluded without NO_PROXY', () => {
+  assert.equal(isNoProxy(url('https://api.cursor.com')), false);
+});
+
+test('matches hosts and their subdomains', () => {
+  process.env.NO_PROXY = 'cursor.com, .internal';
+  assert.equal(isNoProxy(url('https://cursor.com')), true);
+  assert.equal(isNoProxy(url('https://api.cursor.com')), true);
+  assert.equal(isNoProxy(url('https://notcursor.com')), false);
+  assert.equal(isNoProxy(url('http://svc.internal/x')), true);
+});
+
+test('honors ports, using the default port of the scheme', () => {
+  process.env.NO_PROXY = 'example.com:443 other.com:8080';
+  assert.equal(isNoProxy(url('https://example.com')), true);
+  assert.equal(isNoProxy(url('http://example.com')), false);
+  assert.equal(isNoProxy(url('http://other.com:8080')), true);
+});
+
+test('reads lowercase no_proxy and the * wildcard', () => {
+  process.env.no_proxy = '*';
+  assert.equal(isNoProxy(url('https://chatgpt.com')), true);
+});
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import chalk from 'chalk';
+import type { Duplex } from 'stream';
+import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { getProxy, getCaFile } from './config';
+
+/** Per-process agents, keyed by proxy URL ('' for direct connections). */
+const agents = new Map<string, https.Agent>();
+let caCache: string[] | null | undefined;
+
+function envValue(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name] ?? process.env[name.toLowerCase()];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/** NO_PROXY: comma/space separated hosts ('example.com' also matches subdomains, '*' matches all). */
+export function isNoProxy(target: URL): boolean {
+  const noProxy = envValue('NO_PROXY');
+  if (!noProxy) return false;
+  const host = target.hostname.toLowerCase();
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  return noProxy.split(/[\s,]+/).filter(Boolean).some((entry) => {
+    if (entry === '*') return true;
+    const [entryHost, entryPort] = entry.toLowerCase().replace(/^\*?\./, '').split(':');
+    if (entryPort && entryPort !== port) return false;
+    return host === entryHost || host.endsWith(`.${entryHost}`);
+  });
+}
+
+/** Proxy for a request: HTTPS_PROXY / HTTP_PROXY from the environment, then `config set proxy`. */
+export function getProxyUrl(target: URL): URL | undefined {
+  const raw = (target.protocol === 'https:' ? envValue('HTTPS_PROXY', 'ALL_PROXY') : envValue('HTTP_PROXY', 'ALL_PROXY')) ?? getProxy();
+  if (!raw || isNoProxy(target)) return undefined;
+  try {
+    return new URL(raw.includes('://') ? raw : `http://${raw}`);
+  } catch {
+    if (process.env.DEBUG) console.error(chalk.yellow(`[Network] Ignoring invalid proxy URL: ${raw}`));
+    return undefined;
+  }
+}
+
+/**
+ * Trusted CAs when extra ones are configured: Node's bundled roots plus NODE_EXTRA_CA_CERTS
+ * and `config set ca-file`. Null means the defaults are enough.
+ */
+export function getCaCertificates(): string[] | null {
+  if (caCache !== undefined) return caCache;
+  const extra: string[] = [];
+  for (const file of [process.env.NODE_EXTRA_CA_CERTS, getCaFile()]) {
+    if (!file) continue;
+    try {
+      extra.push(fs.readFileSync(file, 'utf8'));
+    } catch (err) {
+      console.error(chalk.yellow(`[Network] Could not read CA file ${file}: ${(err as Error).message}`));
+    }
+  }
+  caCache = extra.length ? [...tls.rootCertificates, ...extra] : null;
+  return caCache;
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/** HTTPS agent that opens a CONNECT tunnel through `proxy`, then does TLS with the target inside it. */
+function createTunnelAgent(proxy: URL, ca: string[] | undefined): https.Agent {
+  const agent = new https.Agent({ ca });
+  agent.createConnection = (options, callback) => {
+    const host = options.host ?? options.hostname ?? 'localhost';
+    const port = Number(options.port) || 443;
+    const transport = proxy.protocol === 'https:' ? https : http;
+    const req = transport.request({
+      host: proxy.hostname,
+      port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: `${host}:${port}`,
+      headers: { Host: `${host}:${port}`, ...proxyAuthorization(proxy) },
+      ca,
+      agent: false,
+    });
+    // Node ignores the stream argument when reporting an error.
+    const fail = (err: Error) => callback?.(err, undefined as unknown as Duplex);
+    req.once('connect', (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        fail(new Error(`Proxy ${proxy.host} refused CONNECT to ${host}:${port} (HTTP ${res.statusCode})`));
+        return;
+      }
+      const servername = (options as tls.ConnectionOptions).servername || host;
+      callback?.(null, tls.connect({ socket, servername, ca, rejectUnauthorized: (options as tls.ConnectionOptions).rejectUnauthorized }));
+    });
+    req.once('error', fail);
+    req.end();
+    return undefined;
+  };
+  return agent;
+}
+
+function getHttpsAgent(proxy: URL | undefined): https.Agent | undefined {
+  const ca = getCaCertificates() ?? undefined;
+  if (!proxy && !ca) return undefined;
+  const key = proxy?.href ?? '';
+  let agent = agents.get(key);
+  if (!agent) {
+    agent = proxy ? createTunnelAgent(proxy, ca) : new https.Agent({ ca });
+    agents.set(key, agent);
+    if (process.env.DEBUG && proxy) console.log(chalk.gray(`[Network] Using proxy ${proxy.host}${ca ? ' with extra CA certificates' : ''}`));
+  }
+  return agent;
+}
+
+/** Route a request through the configured proxy / CA bundle. */
+function applyToRequest(config: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+  if (!config.url) return config;
+  const target = new URL(config.url, config.baseURL);
+  const proxy = getProxyUrl(target);
+  if (target.protocol === 'https:') {
+    config.httpsAgent = getHttpsAgent(proxy) ?? config.httpsAgent;
+    // The tunnel agent does the proxying; axios' own env-based proxy must stay out of the way.
+    config.proxy = false;
+  } else if (proxy) {
+    config.proxy = {
+      protocol: proxy.protocol.replace(':', ''),
+      host: proxy.hostname,
+      port: Number(proxy.port) || 80,
+      auth: proxy.username ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } : undefined,
+    };
+  } else {
+    config.proxy = false;
+  }
+  return config;
+}
+
+/**
+ * Make every request of an axios instance honor HTTPS_PROXY / HTTP_PROXY / NO_PROXY,
+ * NODE_EXTRA_CA_CERTS and the `proxy` / `ca-file` config settings.
+ */
+export function applyNetworkSettings(instance: AxiosInstance): void {
+  instance.interceptors.request.use(applyToRequest);
+}
@@ -0,0 +1,59 @@
+import chalk from 'chalk';
+import { getProviderInstances, fetchProviderResult, providerInstanceKey, type ProviderResult } from '../providers';
+import { storeCachedResults } from './cache';
+import { createSnapshotRecorder } from './history';
+import { runAlerts } from './alerts';
+
+export interface RefreshLoop {
+  /** Latest result per provider instance; empty until the first refresh finishes. */
+  getResults(): ProviderResult[];
+  /** When the last refresh finished, or null before the first one. */
+  getLastRefresh(): Date | null;
+  /** Refresh now; joins a refresh that is already running instead of starting another. */
+  refresh(): Promise<ProviderResult[]>;
+  stop(): void;
+}
+
+/**
+ * Poll every provider on a fixed interval for long-running servers, so
+ * requests are answered from memory instead of hitting provider APIs.
+ * Each round is cached, recorded in history (throttled) and checked against alert rules.
+ */
+export function startRefreshLoop(intervalMs: number): RefreshLoop {
+  const providers = getProviderInstances();
+  let results: ProviderResult[] = [];
+  let lastRefresh: Date | null = null;
+  let inFlight: Promise<ProviderResult[]> | null = null;
+  const recordSnapshots = createSnapshotRecorder();
+
+  const refresh = (): Promise<ProviderResult[]> => {
+    if (inFlight) return inFlight;
+    inFlight = (async () => {
+      const started = Date.now();
+      const fresh = await Promise.all(providers.map(fetchProviderResult));
+      results = fresh;
+      lastRefresh = new Date();
+      storeCachedResults(fresh);
+      await recordSnapshots(fresh);
+      await runAlerts(fresh);
+      if (process.env.DEBUG) {
+        const states = fresh.map((r) => `${providerInstanceKey(r.provider)}=${r.state}`);
+        console.log(chalk.dim(`[Refresh] ${states.join(' ')} (${Date.now() - started}ms)`));
+      }
+      return fresh;
+    })().finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  };
+
+  void refresh();
+  const timer = setInterval(() => void refresh(), intervalMs);
+
+  return {
+    getResults: () => results,
+    getLastRefresh: () => lastRefresh,
+    refresh,
+    stop: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,140 @@
+import chalk from 'chalk';
+import { providerDisplayName, type ModelUsage, type ProviderResult, type ProviderState, type UsageDetails, type UsageWindow } from '../providers';
+import { progressBar, formatDate, formatCountdown, formatShortCountdown, formatTokens, usageColor } from './format';
+import { seriesKey } from './history';
+import type { Forecast } from './forecast';
+
+export interface RenderOptions {
+  /** Show reset times as a live countdown ("2d 04h 13m 05s") instead of a date. */
+  countdown?: boolean;
+  /** Appended to the header line (e.g. a stale marker). */
+  headerSuffix?: string;
+  /** Burn-rate forecasts keyed like history series ('codex.weekly'); see getForecasts. */
+  forecasts?: Map<string, Forecast>;
+}
+
+/** " · 100% in ~2d4h", or a warning when usage runs out before the window resets. */
+function formatForecast(forecast: Forecast | undefined): string {
+  if (!forecast?.exhaustsAt || forecast.exhaustsAt.getTime() <= Date.now()) return '';
+  const eta = `100% in ~${formatShortCountdown(forecast.exhaustsAt)}`;
+  return forecast.beforeReset ? chalk.red(` ⚠ ${eta}, before reset`) : chalk.gray(` · ${eta}`);
+}
+
+export function formatWindow(window: UsageWindow, options: RenderOptions = {}, forecast?: Forecast): string {
+  if (window.unit === 'tokens' && window.limit <= 0) {
+    return chalk.cyan(`${formatTokens(window.used)} tokens`);
+  }
+  const color = usageColor(window.percent);
+  let amount = `${Math.round(window.percent)}% Used`;
+  if (window.unit === 'requests') {
+    amount += ` (${window.used} / ${window.limit})`;
+  } else if (window.unit === 'tokens') {
+    amount += ` (${formatTokens(window.used)} / ${formatTokens(window.limit)})`;
+  } else if (window.unit === 'cents' && window.limit > 0) {
+    amount += ` ($${(window.used / 100).toFixed(2)} / $${(window.limit / 100).toFixed(2)})`;
+  }
+  let reset = '';
+  if (window.resetsAt) {
+    const when = options.countdown ? `in ${formatCountdown(window.resetsAt)}` : formatDate(window.resetsAt);
+    reset = chalk.gray(` (Resets ${when})`);
+  }
+  return color(`[${progressBar(window.percent)}] ${amount}`) + reset + formatForecast(forecast);
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/** Labelled lines for `status --details`, in the same tree as the windows. */
+function detailLines(details: UsageDetails, labelWidth: number): string[] {
+  const label = (text: string) => chalk.gray(`${text}:`.padEnd(labelWidth + 1));
+  const lines: string[] = [];
+  if (details.cycleStart && details.cycleEnd) {
+    lines.push(label('Cycle') + `${details.cycleStart.toLocaleDateString()} – ${details.cycleEnd.toLocaleDateString()}`);
+  }
+  if (details.included) {
+    const { used, limit, bonus } = details.included;
+    const bonusStr = bonus ? chalk.gray(` (+${formatCents(bonus)} bonus)`) : '';
+    lines.push(label('Included') + (limit > 0 ? `${formatCents(used)} of ${formatCents(limit)}` : formatCents(used)) + bonusStr);
+  }
+  if (details.onDemand) {
+    const { enabled, used, limit } = details.onDemand;
+    if (!enabled) {
+      lines.push(label('On-demand') + chalk.gray('Disabled'));
+    } else if (limit) {
+      const percent = (used / limit) * 100;
+      lines.push(label('On-demand') + usageColor(percent)(`[${progressBar(percent)}] ${formatCents(used)} / ${formatCents(limit)} hard limit`));
+    } else {
+      lines.push(label('On-demand') + `${formatCents(used)}` + chalk.gray(' (no hard limit)'));
+    }
+  }
+  if (details.models?.length) lines.push(label('By model') + chalk.gray('this billing cycle'));
+  return lines;
+}
+
+/** One row per model under the tree, e.g. "claude-4-sonnet  $8.12  1.2M in · 80.1k out · 3.4M cache". */
+function modelLines(models: ModelUsage[]): string[] {
+  const width = Math.max(...models.map((m) => m.model.length));
+  return models.map((m) => {
+    const cost = m.costCents !== undefined ? formatCents(m.costCents).padStart(9) : ''.padStart(9);
+    const cache = m.cacheReadTokens + m.cacheWriteTokens;
+    const tokens = `${formatTokens(m.inputTokens)} in · ${formatTokens(m.outputTokens)} out${cache > 0 ? ` · ${formatTokens(cache)} cache` : ''}`;
+    return `        ${m.model.padEnd(width)} ${cost}  ${chalk.gray(tokens)}`;
+  });
+}
+
+const FAILURE_LABELS: Record<Exclude<ProviderState, 'ok'>, string> = {
+  not_configured: 'Not configured',
+  auth_expired: 'Login expired',
+  network_error: 'Network error',
+  rate_limited: 'Rate limited',
+  unexpected_response: 'Unexpected response',
+  no_data: 'No data',
+};
+
+/** Render one provider block (header + tree of windows) as terminal lines. */
+export function renderProviderLines(result: ProviderResult, options: RenderOptions = {}): string[] {
+  const { provider, usage } = result;
+  const name = providerDisplayName(provider);
+  const suffix = options.headerSuffix ?? '';
+  if (result.state !== 'ok') {
+    const color = result.state === 'not_configured' || result.state === 'no_data' ? chalk.gray
+      : result.state === 'rate_limited' ? chalk.yellow
+      : chalk.red;
+    const detail = result.error ? chalk.dim(` (${result.error})`) : '';
+    return [color(`[${name}] ${FAILURE_LABELS[result.state]}: ${result.hint ?? ''}`.trimEnd()) + detail + suffix];
+  }
+  if (!usage) return [];
+
+  const out: string[] = [];
+  const planStr = usage.plan ? ` ${usage.plan}` : '';
+  const emailStr = usage.email ? ` (${usage.email})` : '';
+  if (usage.windows.length === 0) {
+    out.push(chalk.green(`[${name}${planStr}] [Connected]${emailStr}`) + suffix);
+  } else {
+    out.push(chalk.green(`[${name}${planStr}]${emailStr}`) + suffix);
+  }
+  if (usage.note) {
+    out.push(chalk.gray(`   (${usage.note})`));
+  }
+
+  const lines: string[] = [];
+  const details = result.details;
+  const labelWidth = Math.max(details ? 10 : 8, ...usage.windows.map((w) => w.label.length + 1));
+  for (const window of usage.windows) {
+    const forecast = options.forecasts?.get(seriesKey(provider.id, provider.account, window.id));
+    lines.push(chalk.gray(`${window.label}:`.padEnd(labelWidth + 1)) + formatWindow(window, options, forecast));
+  }
+  if (usage.credits?.unlimited) {
+    lines.push(chalk.gray('Credits:'.padEnd(labelWidth + 1) + 'Unlimited'));
+  } else if (usage.credits?.balance != null) {
+    lines.push(chalk.gray('Credits:'.padEnd(labelWidth + 1) + String(usage.credits.balance)));
+  }
+  if (details) lines.push(...detailLines(details, labelWidth));
+  lines.forEach((line, i) => {
+    const branch = i === lines.length - 1 ? '└─' : '├─';
+    out.push(chalk.gray(`   ${branch} `) + line);
+  });
+  if (details?.models?.length) out.push(...modelLines(details.models));
+  return out;
+}
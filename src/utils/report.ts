@@ -0,0 +1,110 @@
+import type { ModelUsage, ProviderResult, ProviderState, UsageDetails, UsageUnit } from '../providers';
+
+/**
+ * Version of the `status --json` / `--ndjson` schema.
+ * Bump on any breaking change (renamed/removed fields, changed meaning).
+ */
+export const REPORT_SCHEMA_VERSION = 2;
+
+export interface JsonUsageWindow {
+  id: string;
+  label: string;
+  unit: UsageUnit;
+  used: number;
+  limit: number;
+  percent: number;
+  /** ISO 8601, or null if the provider did not report one. */
+  resetsAt: string | null;
+}
+
+/** `status --details` breakdown; amounts in cents, dates ISO 8601. */
+export interface JsonUsageDetails {
+  cycleStart: string | null;
+  cycleEnd: string | null;
+  included: { used: number; limit: number; bonus: number | null } | null;
+  onDemand: { enabled: boolean; used: number; limit: number | null } | null;
+  models: Array<Omit<ModelUsage, 'costCents'> & { costCents: number | null }> | null;
+}
+
+export interface JsonProviderReport {
+  id: string;
+  name: string;
+  /** Named account (see `tlens accounts`), or null for the default one. */
+  account: string | null;
+  state: ProviderState;
+  plan: string | null;
+  email: string | null;
+  windows: JsonUsageWindow[];
+  credits: { balance: number | null; unlimited: boolean } | null;
+  /** What the user can do when state is not 'ok'. */
+  hint: string | null;
+  /** Technical detail of a failure (HTTP status, error code). */
+  error: string | null;
+  /** ISO 8601 time the provider was fetched. */
+  fetchedAt: string;
+  /** True when served from the on-disk cache (see fetchedAt for its age). */
+  cached: boolean;
+  /** Only with --details, for providers that have a breakdown. */
+  details?: JsonUsageDetails;
+}
+
+export interface JsonReport {
+  schemaVersion: number;
+  generatedAt: string;
+  providers: JsonProviderReport[];
+}
+
+function toJsonDetails(details: UsageDetails): JsonUsageDetails {
+  return {
+    cycleStart: details.cycleStart ? details.cycleStart.toISOString() : null,
+    cycleEnd: details.cycleEnd ? details.cycleEnd.toISOString() : null,
+    included: details.included ? { ...details.included, bonus: details.included.bonus ?? null } : null,
+    onDemand: details.onDemand ? { ...details.onDemand, limit: details.onDemand.limit ?? null } : null,
+    models: details.models ? details.models.map((m) => ({ ...m, costCents: m.costCents ?? null })) : null,
+  };
+}
+
+export function toJsonProvider(result: ProviderResult): JsonProviderReport {
+  const { provider, usage } = result;
+  return {
+    id: provider.id,
+    name: provider.name,
+    account: provider.account ?? null,
+    state: result.state,
+    plan: usage?.plan ?? null,
+    email: usage?.email ?? null,
+    windows: (usage?.windows ?? []).map((w) => ({
+      id: w.id,
+      label: w.label,
+      unit: w.unit,
+      used: w.used,
+      limit: w.limit,
+      percent: w.percent,
+      resetsAt: w.resetsAt ? w.resetsAt.toISOString() : null,
+    })),
+    credits: usage?.credits
+      ? { balance: usage.credits.balance ?? null, unlimited: usage.credits.unlimited === true }
+      : null,
+    hint: result.hint ?? null,
+    error: result.error ?? null,
+    fetchedAt: result.fetchedAt.toISOString(),
+    cached: result.cached === true,
+    ...(result.details ? { details: toJsonDetails(result.details) } : {}),
+  };
+}
+
+export function toJsonReport(results: ProviderResult[]): JsonReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    providers: results.map(toJsonProvider),
+  };
+}
+
+/** One JSON object per provider, each carrying the schema version. */
+export function toNdjsonLines(results: ProviderResult[]): string[] {
+  const generatedAt = new Date().toISOString();
+  return results.map((r) =>
+    JSON.stringify({ schemaVersion: REPORT_SCHEMA_VERSION, generatedAt, ...toJsonProvider(r) })
+  );
+}
@@ -0,0 +1,104 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import childProcess from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readSecretFile, writeOsSecret, writeSecretFile } from './secret-store';
+
+function tempFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tlens-secrets-')), 'secrets.enc');
+}
+
+test('round-trips secrets through the encrypted file', () => {
+  const file = tempFile();
+  const secrets = { 'apiKeys.copilot': 'ghu_123', 'sessions.cursor@work': 'token' };
+  writeSecretFile(file, 'pass', secrets);
+  assert.deepEqual(readSecretFile(file, 'pass'), secrets);
+});
+
+test('keeps the file owner-only and the values out of it', () => {
+  const file = tempFile();
+  writeSecretFile(file, 'pass', { key: 'very-secret-value' });
+  assert.doesNotMatch(fs.readFileSync(file, 'utf8'), /very-secret-value/);
+  if (process.platform !== 'win32') assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+});
+
+test('returns {} when the file does not exist', () => {
+  assert.deepEqual(readSecretFile(tempFile(), 'pass'), {});
+});
+
+test('throws on a wrong passphrase', () => {
+  const file = tempFile();
+  writeSecretFile(file, 'pass', { key: 'value' });
+  assert.throws(() => readSecretFile(file, 'wrong'), /Could not decrypt/);
+});
+
+test('uses a fresh salt and IV for every write', () => {
+  const file = tempFile();
+  writeSecretFile(file, 'pass', { key: 'value' });
+  const first = JSON.parse(fs.readFileSync(file, 'utf8'));
+  writeSecretFile(file, 'pass', { key: 'value' });
+  const second = JSON.parse(fs.readFileSync(file, 'utf8'));
+  assert.notEqual(first.salt, second.salt);
+  assert.notEqual(first.iv, second.iv);
+});
+
+interface SpawnCall {
+  cmd: string;
+  args: string[];
+  input?: string;
+}
+
+/** Record execFileSync calls; `security find-generic-password` answers with `stored`. */
+function mockSecurity(stored: string): SpawnCall[] {
+  const calls: SpawnCall[] = [];
+  mock.method(childProcess, 'execFileSync', (cmd: string, args: string[], options: { input?: string }) => {
+    calls.push({ cmd, args, input: options.input });
+    return args[0] === 'find-generic-password' ? `${stored}\n` : '';
+  });
+  return calls;
+}
+
+test('keychain writes send the whole command to `security -i` on stdin', (t) => {
+  t.after(() => mock.restoreAll());
+  const token = `user_01::${'x'.repeat(300)}`;
+  const calls = mockSecurity(token);
+  assert.equal(writeOsSecret('keychain', 'sessions.cursor', token), true);
+  assert.deepEqual(calls[0].args, ['-i']);
+  assert.equal(
+    calls[0].input,
+    `"add-generic-password" "-U" "-s" "tokenlens" "-a" "sessions.cursor" "-l" "tokenlens sessions.cursor" "-w" "${token}"\n`
+  );
+  for (const call of calls) assert.ok(!call.args.some((arg) => arg.includes(token)), 'secret on argv');
+  assert.deepEqual(calls[1].args, ['find-generic-password', '-w', '-s', 'tokenlens', '-a', 'sessions.cursor']);
+});
+
+test('keychain writes escape quotes and backslashes', (t) => {
+  t.after(() => mock.restoreAll());
+  const calls = mockSecurity('a"b\\c');
+  assert.equal(writeOsSecret('keychain', 'apiKeys.copilot', 'a"b\\c'), true);
+  assert.match(calls[0].input!, / "-w" "a\\"b\\\\c"\n$/);
+});
+
+test('keychain writes fail when the read-back differs or the value spans lines', (t) => {
+  t.after(() => mock.restoreAll());
+  mockSecurity('something else');
+  assert.equal(writeOsSecret('keychain', 'apiKeys.copilot', 'value'), false);
+  assert.equal(writeOsSecret('keychain', 'apiKeys.copilot', 'two\nlines'), false);
+});
+
+test('secret-tool writes pass the value on stdin', (t) => {
+  t.after(() => mock.restoreAll());
+  const calls: SpawnCall[] = [];
+  mock.method(childProcess, 'execFileSync', (cmd: string, args: string[], options: { input?: string }) => {
+    calls.push({ cmd, args, input: options.input });
+    return args[0] === 'lookup' ? 'value\n' : '';
+  });
+  assert.equal(writeOsSecret('secret-service', 'apiKeys.copilot', 'value'), true);
+  assert.deepEqual(calls[0], {
+    cmd: 'secret-tool',
+    args: ['store', '--label', 'tokenlens apiKeys.copilot', 'service', 'tokenlens', 'account', 'apiKeys.copilot'],
+    input: 'value',
+  });
+});
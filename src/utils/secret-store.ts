@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+/** Where a secret is kept: macOS Keychain, Linux Secret Service, or the passphrase-encrypted file. */
+export type SecretBackend = 'keychain' | 'secret-service' | 'file';
+
+export const SECRET_BACKEND_LABELS: Record<SecretBackend, string> = {
+  keychain: 'macOS Keychain',
+  'secret-service': 'Secret Service',
+  file: 'encrypted file',
+};
+
+/** Passphrase for the encrypted secrets file, used when no OS secret store is available. */
+export const PASSPHRASE_ENV = 'TLENS_SECRET_PASSPHRASE';
+
+/** Keychain service / Secret Service attribute all tokenlens secrets are stored under. */
+const SERVICE = 'tokenlens';
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function run(cmd: string, args: string[], input?: string): string {
+  return execFileSync(cmd, args, { encoding: 'utf8', input, timeout: 5000, stdio: ['pipe', 'pipe', 'pipe'] });
+}
+
+/** OS secret store to try on this platform, or null if there is none. */
+export function getOsSecretBackend(): Exclude<SecretBackend, 'file'> | null {
+  if (process.platform === 'darwin') return 'keychain';
+  if (process.platform === 'linux') {
+    try {
+      execFileSync('sh', ['-c', 'command -v secret-tool'], { stdio: 'ignore', timeout: 3000 });
+      return 'secret-service';
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function readOsSecret(backend: Exclude<SecretBackend, 'file'>, name: string): string | undefined {
+  try {
+    const out = backend === 'keychain'
+      ? run('security', ['find-generic-password', '-w', '-s', SERVICE, '-a', name])
+      : run('secret-tool', ['lookup', 'service', SERVICE, 'account', name]);
+    return out.replace(/\n$/, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Quote an argument for a `security -i` command line, which is split like a shell's. */
+function quoteSecurityArg(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/** Store a secret; false when the store is unavailable (e.g. no D-Bus session or locked keychain). */
+export function writeOsSecret(backend: Exclude<SecretBackend, 'file'>, name: string, value: string): boolean {
+  try {
+    // Both tools get the value on stdin, keeping it out of the process list.
+    if (backend === 'keychain') {
+      // `-w` without a value would make security read it with getpass, which uses
+      // the terminal rather than stdin and truncates at 128 characters. Instead the
+      // whole command goes to `security -i`, which reads command lines from stdin.
+      if (/[\r\n]/.test(value)) return false;
+      const args = ['add-generic-password', '-U', '-s', SERVICE, '-a', name, '-l', `${SERVICE} ${name}`, '-w', value];
+      run('security', ['-i'], `${args.map(quoteSecurityArg).join(' ')}\n`);
+    } else {
+      run('secret-tool', ['store', '--label', `${SERVICE} ${name}`, 'service', SERVICE, 'account', name], value);
+    }
+    return readOsSecret(backend, name) === value;
+  } catch {
+    return false;
+  }
+}
+
+export function deleteOsSecret(backend: Exclude<SecretBackend, 'file'>, name: string): void {
+  try {
+    if (backend === 'keychain') run('security', ['delete-generic-password', '-s', SERVICE, '-a', name]);
+    else run('secret-tool', ['clear', 'service', SERVICE, 'account', name]);
+  } catch {
+    // already gone
+  }
+}
+
+function deriveFileKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+/** Decrypt the secrets file ({} if it does not exist). Throws on a wrong passphrase. */
+export function readSecretFile(filePath: string, passphrase: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) return {};
+  const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as EncryptedFile;
+  const key = deriveFileKey(passphrase, Buffer.from(file.salt, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  try {
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(plain.toString('utf8')) as Record<string, string>;
+  } catch {
+    throw new Error(`Could not decrypt ${filePath} (wrong ${PASSPHRASE_ENV}?)`);
+  }
+}
+
+/** Encrypt all secrets with AES-256-GCM under a scrypt-derived key; owner-readable only. */
+export function writeSecretFile(filePath: string, passphrase: string, secrets: Record<string, string>): void {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveFileKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  const file: EncryptedFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ProviderResult, UsageProvider, UsageWindow } from '../providers';
+import { parsePlaceholders, renderTemplate } from './template';
+
+function result(id: string, windows: UsageWindow[], account?: string): ProviderResult {
+  return { provider: { id, name: id, account } as UsageProvider, state: 'ok', usage: { windows }, fetchedAt: new Date() };
+}
+
+const session: UsageWindow = { id: 'session', label: 'Session', unit: 'percent', used: 42.4, limit: 100, percent: 42.4, resetsAt: new Date(Date.now() + 3 * 3_600_000 + 30 * 60_000) };
+const plan: UsageWindow = { id: 'plan', label: 'Plan', unit: 'requests', used: 450, limit: 500, percent: 90 };
+
+test('parses placeholders with accounts and fields', () => {
+  assert.deepEqual(parsePlaceholders('{Codex.Session}% {codex@work.weekly.reset} {cursor.plan.limit}'), [
+    { provider: 'codex', account: undefined, window: 'session', field: 'percent' },
+    { provider: 'codex', account: 'work', window: 'weekly', field: 'reset' },
+    { provider: 'cursor', account: undefined, window: 'plan', field: 'limit' },
+  ]);
+  assert.deepEqual(parsePlaceholders('no placeholders {here}'), []);
+});
+
+test('fills percent, reset, used and limit', () => {
+  const results = [result('codex', [session]), result('cursor', [plan])];
+  assert.equal(renderTemplate('{codex.session}% {codex.session.reset} | {cursor.plan.used}/{cursor.plan.limit}', results), '42% 3h29m | 450/500');
+});
+
+test('picks the named account, else the first instance', () => {
+  const results = [result('codex', [{ ...session, percent: 10 }]), result('codex', [{ ...session, percent: 70 }], 'work')];
+  assert.equal(renderTemplate('{codex.session} {codex@work.session} {codex@home.session}', results), '10 70 -');
+});
+
+test('prints the missing text for unknown windows, failures and limitless windows', () => {
+  const failed: ProviderResult = { ...result('gemini', []), state: 'auth_expired', usage: null };
+  const tokens: UsageWindow = { id: 'session_tokens', label: 'Session', unit: 'tokens', used: 1200, limit: 0, percent: 0 };
+  const results = [result('codex', [session]), failed, result('claude', [tokens])];
+  assert.equal(
+    renderTemplate('{codex.nope} {gemini.pro} {claude.session_tokens} {claude.session_tokens.used}', results, { missing: '?' }),
+    '? ? ? 1200'
+  );
+});
+
+test('colors percentages for ANSI and tmux', () => {
+  const results = [result('cursor', [plan])];
+  assert.equal(renderTemplate('{cursor.plan}', results, { color: 'tmux' }), '#[fg=red]90#[default]');
+  assert.equal(renderTemplate('{cursor.plan}', results, { color: 'ansi' }), '\u001b[31m90\u001b[39m');
+});
@@ -0,0 +1,77 @@
+import { Chalk } from 'chalk';
+import { hasKnownLimit, type ProviderResult, type UsageWindow } from '../providers';
+import { formatShortCountdown, usageLevel } from './format';
+
+/** How placeholder values are colored: not at all, ANSI escapes, or tmux #[fg=...] codes. */
+export type TemplateColor = 'none' | 'ansi' | 'tmux';
+
+/** A `{provider[@account].window[.field]}` reference in a prompt template. */
+export interface Placeholder {
+  provider: string;
+  account?: string;
+  window: string;
+  field: 'percent' | 'reset' | 'used' | 'limit';
+}
+
+export interface TemplateOptions {
+  color?: TemplateColor;
+  /** Printed for placeholders with no data. */
+  missing?: string;
+}
+
+const PLACEHOLDER_RE = /\{([a-z0-9_-]+)(?:@([a-z0-9_-]+))?\.([a-z0-9_-]+)(?:\.(reset|used|limit))?\}/gi;
+
+// Prompts are rendered into command substitutions, never a TTY, so color is forced.
+const ansi = new Chalk({ level: 1 });
+
+export function parsePlaceholders(template: string): Placeholder[] {
+  return Array.from(template.matchAll(PLACEHOLDER_RE), (m) => ({
+    provider: m[1].toLowerCase(),
+    account: m[2],
+    window: m[3].toLowerCase(),
+    field: (m[4]?.toLowerCase() ?? 'percent') as Placeholder['field'],
+  }));
+}
+
+/** The result a placeholder refers to: the named account, else the first instance of the provider. */
+export function findPlaceholderResult(placeholder: Placeholder, results: ProviderResult[]): ProviderResult | undefined {
+  const candidates = results.filter((r) => r.provider.id === placeholder.provider);
+  if (placeholder.account) return candidates.find((r) => r.provider.account === placeholder.account);
+  return candidates[0];
+}
+
+function colorize(text: string, percent: number, color: TemplateColor): string {
+  const level = usageLevel(percent);
+  if (color === 'ansi') return ansi[level](text);
+  if (color === 'tmux') return `#[fg=${level}]${text}#[default]`;
+  return text;
+}
+
+function renderValue(placeholder: Placeholder, window: UsageWindow, color: TemplateColor): string | null {
+  switch (placeholder.field) {
+    case 'percent':
+      if (!hasKnownLimit(window)) return null;
+      return colorize(String(Math.round(window.percent)), window.percent, color);
+    case 'reset':
+      return window.resetsAt ? formatShortCountdown(window.resetsAt) : null;
+    case 'used':
+      return String(window.used);
+    case 'limit':
+      return hasKnownLimit(window) ? String(window.limit) : null;
+  }
+}
+
+/**
+ * Fill a template such as "{codex.session}% ({codex.session.reset})".
+ * Unknown text is kept as-is; placeholders without data become `missing`.
+ */
+export function renderTemplate(template: string, results: ProviderResult[], options: TemplateOptions = {}): string {
+  const missing = options.missing ?? '-';
+  const color = options.color ?? 'none';
+  return template.replace(PLACEHOLDER_RE, (match) => {
+    const [placeholder] = parsePlaceholders(match);
+    const result = findPlaceholderResult(placeholder, results);
+    const window = result?.state === 'ok' ? result.usage?.windows.find((w) => w.id === placeholder.window) : undefined;
+    return (window && renderValue(placeholder, window, color)) ?? missing;
+  });
+}